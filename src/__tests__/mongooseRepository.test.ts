@@ -0,0 +1,183 @@
+// mongooseRepository.test.ts
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { createMongooseRepository } from '../mongooseRepository';
+import { ZodValidationError } from '../zodToMongoose';
+
+describe('createMongooseRepository', () => {
+  const authorId = new mongoose.Types.ObjectId();
+  const postId = new mongoose.Types.ObjectId();
+
+  const postSchema = z.object({
+    title: z.string().min(3),
+    status: z.enum(['draft', 'published']).default('draft'),
+    authorId: z.string(),
+  });
+
+  const posts = createMongooseRepository('RepositoryPost', postSchema, {
+    authorId: 'User',
+  });
+
+  const storedPost = {
+    _id: postId,
+    title: 'Hello',
+    status: 'draft',
+    authorId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    __v: 0,
+  };
+
+  const mockLean = (value: unknown) =>
+    ({ lean: jest.fn().mockResolvedValue(value) } as any);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should validate data before creating a document', async () => {
+    const create = jest
+      .spyOn(posts.model, 'create')
+      .mockImplementation(
+        async (data: any) => new posts.model({ _id: postId, ...data }) as any
+      );
+
+    const post = await posts.create({
+      title: 'Hello',
+      authorId: authorId.toString(),
+    });
+
+    expect(create).toHaveBeenCalledWith({
+      title: 'Hello',
+      status: 'draft',
+      authorId: authorId.toString(),
+    });
+    expect(post).toEqual({
+      id: postId.toString(),
+      title: 'Hello',
+      status: 'draft',
+      authorId: authorId.toString(),
+    });
+
+    await expect(
+      posts.create({ title: 'Hi', authorId: authorId.toString() })
+    ).rejects.toBeInstanceOf(ZodValidationError);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should parse documents read back through the schema', async () => {
+    jest.spyOn(posts.model, 'findById').mockReturnValue(mockLean(storedPost));
+    jest.spyOn(posts.model, 'find').mockReturnValue(mockLean([storedPost]));
+
+    const expected = {
+      id: postId.toString(),
+      title: 'Hello',
+      status: 'draft',
+      authorId: authorId.toString(),
+    };
+    expect(await posts.findById(postId.toString())).toEqual(expected);
+    expect(await posts.find({ status: 'draft' })).toEqual([expected]);
+    expect(posts.model.find).toHaveBeenCalledWith({ status: 'draft' });
+  });
+
+  it('should return null for unknown or malformed ids', async () => {
+    const findById = jest
+      .spyOn(posts.model, 'findById')
+      .mockReturnValue(mockLean(null));
+
+    expect(await posts.findById(postId.toString())).toBeNull();
+    expect(await posts.findById('not-an-id')).toBeNull();
+    expect(findById).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate partial updates', async () => {
+    const findByIdAndUpdate = jest
+      .spyOn(posts.model, 'findByIdAndUpdate')
+      .mockReturnValue(mockLean({ ...storedPost, status: 'published' }));
+
+    const post = await posts.updateById(postId.toString(), {
+      status: 'published',
+    });
+
+    expect(findByIdAndUpdate).toHaveBeenCalledWith(
+      postId.toString(),
+      { $set: { status: 'published' } },
+      { new: true, runValidators: true }
+    );
+    expect(post?.status).toBe('published');
+
+    await expect(
+      posts.updateById(postId.toString(), { title: 'Hi' })
+    ).rejects.toMatchObject({ fieldErrors: { title: expect.any(Array) } });
+    expect(findByIdAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete documents by id', async () => {
+    const deleteOne = jest
+      .spyOn(posts.model, 'deleteOne')
+      .mockResolvedValue({ acknowledged: true, deletedCount: 1 } as any);
+
+    expect(await posts.deleteById(postId.toString())).toBe(true);
+    expect(deleteOne).toHaveBeenCalledWith({ _id: postId.toString() });
+    expect(await posts.deleteById('not-an-id')).toBe(false);
+  });
+
+  it('should validate updateOne and findOneAndUpdate queries', async () => {
+    const { model } = createMongooseRepository(
+      'RepositoryQueryPost',
+      postSchema,
+      { authorId: 'User' },
+      { schemaOptions: { bufferCommands: false } }
+    );
+
+    const error = await model
+      .updateOne(
+        { _id: postId },
+        { title: 'Hi', $unset: { authorId: 1 }, $set: { status: 'archived' } }
+      )
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(mongoose.Error.ValidationError);
+    expect(Object.keys((error as any).errors).sort()).toEqual([
+      'authorId',
+      'status',
+      'title',
+    ]);
+
+    const validUpdateError = await model
+      .findOneAndUpdate(
+        { _id: postId },
+        { $set: { authorId: new mongoose.Types.ObjectId() } }
+      )
+      .catch((err: unknown) => err);
+
+    // Valid updates pass the hook and only fail for lack of a connection
+    expect(validUpdateError).not.toBeInstanceOf(mongoose.Error.ValidationError);
+  });
+
+  it('should let update validators set nullable fields to null', async () => {
+    const nullPosts = createMongooseRepository(
+      'RepositoryNullPost',
+      z.object({ title: z.string(), deletedAt: z.date().nullable() }),
+      {},
+      { schemaOptions: { bufferCommands: false } }
+    );
+
+    const error = await nullPosts
+      .updateById(postId.toString(), { deletedAt: null })
+      .catch((err: unknown) => err);
+    const queryContextError = await nullPosts.model
+      .updateOne(
+        { _id: postId },
+        { $set: { deletedAt: null } },
+        { runValidators: true, context: 'query' }
+      )
+      .catch((err: unknown) => err);
+
+    // Both only fail for lack of a connection
+    expect(error).not.toBeInstanceOf(mongoose.Error.ValidationError);
+    expect(queryContextError).not.toBeInstanceOf(
+      mongoose.Error.ValidationError
+    );
+  });
+});
@@ -0,0 +1,242 @@
+// mongooseToZod.test.ts
+import mongoose from 'mongoose';
+import { mongooseToZod } from '../mongooseToZod';
+import { getZodObjectIdRef, isZodObjectId } from '../objectId';
+import { zodToMongoose } from '../zodToMongoose';
+
+describe('mongooseToZod', () => {
+  const addressSchema = new mongoose.Schema({
+    street: { type: String, required: true },
+    countryId: { type: mongoose.Schema.Types.ObjectId, ref: 'Country' },
+  });
+
+  const userSchema = new mongoose.Schema(
+    {
+      name: {
+        type: String,
+        required: true,
+        minlength: 2,
+        maxlength: 50,
+        match: /^[a-z ]+$/i,
+      },
+      role: { type: String, enum: ['admin', 'user'], default: 'user' },
+      age: { type: Number, min: 0, max: 120 },
+      active: { type: Boolean, required: true },
+      bornAt: { type: Date },
+      lastSeenAt: { type: Date, default: Date.now },
+      tags: [String],
+      address: addressSchema,
+      previousAddresses: [addressSchema],
+      preferences: { theme: String, notifications: { email: Boolean } },
+      managerId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+      },
+      groupIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Group' }],
+      metadata: mongoose.Schema.Types.Mixed,
+    },
+    { timestamps: true }
+  );
+
+  it('should convert a Mongoose schema to a runtime Zod schema', () => {
+    const { zodSchema } = mongooseToZod(userSchema);
+
+    expect(Object.keys(zodSchema.shape)).toEqual([
+      'name',
+      'role',
+      'age',
+      'active',
+      'bornAt',
+      'lastSeenAt',
+      'tags',
+      'address',
+      'previousAddresses',
+      'preferences',
+      'managerId',
+      'groupIds',
+      'metadata',
+    ]);
+
+    const valid = zodSchema.safeParse({
+      name: 'Jane Doe',
+      active: true,
+      preferences: { notifications: {} },
+      managerId: '507f1f77bcf86cd799439011',
+    });
+    expect(valid.success).toBe(true);
+    expect(valid.success && valid.data.role).toBe('user');
+    expect(valid.success && valid.data.lastSeenAt).toBeInstanceOf(Date);
+
+    expect(
+      zodSchema
+        .safeParse({
+          name: 'J',
+          role: 'owner',
+          age: -1,
+          active: true,
+          preferences: { notifications: {} },
+          managerId: '507f1f77bcf86cd799439011',
+        })
+        .error?.issues.map((issue) => issue.path.join('.'))
+    ).toEqual(['name', 'role', 'age']);
+  });
+
+  it('should collect ObjectId references as relationship mappings', () => {
+    const { relationshipMappings } = mongooseToZod(userSchema);
+
+    expect(relationshipMappings).toEqual({
+      'address.countryId': 'Country',
+      'previousAddresses.countryId': 'Country',
+      managerId: 'User',
+      groupIds: 'Group',
+    });
+  });
+
+  it('should generate TypeScript source for the Zod schema', () => {
+    const { source } = mongooseToZod(
+      new mongoose.Schema({
+        title: { type: String, required: true, maxlength: 120 },
+        status: { type: String, enum: ['draft', 'published'] },
+        views: { type: Number, min: 0, default: 0 },
+        author: new mongoose.Schema({ name: String }),
+      }),
+      { exportName: 'postSchema' }
+    );
+
+    expect(source).toBe(
+      [
+        "import { z } from 'zod';",
+        '',
+        'export const postSchema = z.object({',
+        '  title: z.string().max(120),',
+        "  status: z.enum(['draft', 'published']).optional(),",
+        '  views: z.number().min(0).optional().default(0),',
+        '  author: z.object({',
+        '    name: z.string().optional(),',
+        '  }).optional(),',
+        '});',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should convert ObjectId paths to zodObjectId', () => {
+    const { zodSchema, source } = mongooseToZod(
+      new mongoose.Schema({
+        authorId: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        externalId: { type: mongoose.Schema.Types.ObjectId, required: true },
+      })
+    );
+
+    expect(getZodObjectIdRef(zodSchema.shape.authorId)).toBe('User');
+    expect(isZodObjectId(zodSchema.shape.externalId)).toBe(true);
+    expect(
+      zodSchema
+        .safeParse({
+          authorId: new mongoose.Types.ObjectId(),
+          externalId: 'not-an-object-id',
+        })
+        .error?.issues.map((issue) => issue.path.join('.'))
+    ).toEqual(['externalId']);
+    expect(source).toBe(
+      [
+        "import { z } from 'zod';",
+        "import { zodObjectId } from 'zod-to-schema';",
+        '',
+        'export const schema = z.object({',
+        "  authorId: zodObjectId('User'),",
+        '  externalId: zodObjectId(),',
+        '});',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should round-trip nested paths and validation messages', async () => {
+    const schema = new mongoose.Schema({
+      name: {
+        type: String,
+        required: true,
+        maxlength: [50, 'Name is too long'],
+      },
+      nested: { street: String, zip: String },
+      contact: {
+        email: { type: String, required: true },
+        phone: String,
+      },
+    });
+    const { zodSchema, source } = mongooseToZod(schema);
+
+    expect(source).toContain("name: z.string().max(50, 'Name is too long'),");
+    expect(source).toContain('  }).default({}),');
+    expect(source).toContain('  }).optional(),');
+    const NestedModel = mongoose.model('RoundTripNested', schema);
+    const doc = new NestedModel({ name: 'Al' });
+    expect(zodSchema.safeParse(doc.toObject()).success).toBe(true);
+
+    const RoundTripped = mongoose.model(
+      'RoundTripNestedCopy',
+      new mongoose.Schema(zodToMongoose(zodSchema))
+    );
+    await expect(
+      new RoundTripped({ name: 'Al' }).validate()
+    ).resolves.toBeUndefined();
+    const error = await new RoundTripped({ name: 'A'.repeat(51) })
+      .validate()
+      .catch((err: any) => err);
+    expect(error.errors.name.message).toBe('Name is too long');
+  });
+
+  it('should preserve the definition when round-tripping through zodToMongoose', () => {
+    const { zodSchema, relationshipMappings } = mongooseToZod(userSchema);
+    const definition = zodToMongoose(zodSchema, relationshipMappings) as any;
+
+    expect(definition.name).toEqual({
+      type: String,
+      minlength: 2,
+      maxlength: 50,
+      match: /^[a-z ]+$/i,
+      required: true,
+    });
+    expect(definition.role).toEqual({
+      type: String,
+      enum: ['admin', 'user'],
+      default: 'user',
+      required: false,
+    });
+    expect(definition.age).toEqual({
+      type: Number,
+      min: 0,
+      max: 120,
+      required: false,
+    });
+    expect(definition.lastSeenAt.default()).toBeInstanceOf(Date);
+    expect(definition.tags).toEqual({ type: [String], required: false });
+    expect(definition.managerId).toEqual({
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    });
+    expect(definition.groupIds).toEqual({
+      type: [mongoose.Schema.Types.ObjectId],
+      ref: 'Group',
+      required: false,
+    });
+    expect(definition.address.type.obj).toEqual({
+      street: { type: String, required: true },
+      countryId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Country',
+        required: false,
+      },
+    });
+    expect(definition.previousAddresses.type[0].obj).toEqual(
+      definition.address.type.obj
+    );
+  });
+});
@@ -0,0 +1,37 @@
+// objectId.test.ts
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { getZodObjectIdRef, isZodObjectId, zodObjectId } from '../objectId';
+
+describe('zodObjectId', () => {
+  it('should accept 24-character hex strings and ObjectIds', () => {
+    const schema = zodObjectId();
+    const objectId = new mongoose.Types.ObjectId();
+
+    expect(schema.parse('507f1f77bcf86cd799439011')).toBe(
+      '507f1f77bcf86cd799439011'
+    );
+    expect(schema.parse(objectId)).toBe(objectId.toHexString());
+  });
+
+  it('should reject other values', () => {
+    const schema = zodObjectId();
+
+    expect(schema.safeParse('not-an-object-id').error?.issues[0].message).toBe(
+      'Invalid ObjectId'
+    );
+    expect(schema.safeParse('507f1f77bcf86cd79943901').success).toBe(false);
+    expect(schema.safeParse(42).success).toBe(false);
+  });
+
+  it('should keep the referenced model through copies of the schema', () => {
+    const schema = zodObjectId('User');
+
+    expect(isZodObjectId(schema)).toBe(true);
+    expect(getZodObjectIdRef(schema)).toBe('User');
+    expect(getZodObjectIdRef(schema.describe('Author'))).toBe('User');
+    expect(getZodObjectIdRef(zodObjectId())).toBeUndefined();
+    expect(isZodObjectId(z.string())).toBe(false);
+    expect(isZodObjectId(z.string().transform(Number))).toBe(false);
+  });
+});
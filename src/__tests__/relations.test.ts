@@ -0,0 +1,43 @@
+// relations.test.ts
+import { z } from 'zod';
+import { zodObjectId } from '../objectId';
+import {
+  getRelation,
+  getRelationFieldName,
+  referencesId,
+  withRelation,
+} from '../relations';
+
+describe('withRelation', () => {
+  it('should keep the relation through wrappers and copies of the schema', () => {
+    const schema = withRelation(z.string(), {
+      model: 'User',
+      onDelete: 'Cascade',
+    });
+
+    expect(getRelation(schema)).toEqual({ model: 'User', onDelete: 'Cascade' });
+    expect(getRelation(schema.optional().nullable())?.model).toBe('User');
+    expect(getRelation(schema.describe('Author'))?.model).toBe('User');
+    expect(getRelation(z.string())).toBeUndefined();
+  });
+
+  it('should keep the schema behaviour', () => {
+    const schema = withRelation(zodObjectId(), { model: 'User' });
+
+    expect(schema.safeParse('not-an-object-id').success).toBe(false);
+    expect(schema.parse('507f1f77bcf86cd799439011')).toBe(
+      '507f1f77bcf86cd799439011'
+    );
+  });
+
+  it('should tell id references from references to other fields', () => {
+    expect(referencesId({ model: 'User' })).toBe(true);
+    expect(referencesId({ model: 'User', references: '_id' })).toBe(true);
+    expect(referencesId({ model: 'User', references: 'email' })).toBe(false);
+  });
+
+  it('should name relation fields after the foreign key', () => {
+    expect(getRelationFieldName('authorId')).toBe('author');
+    expect(getRelationFieldName('authorEmail')).toBe('authorEmailRelation');
+  });
+});
@@ -1,10 +1,16 @@
 // zodToMongoose.test.ts
 import mongoose from 'mongoose';
 import { z } from 'zod';
+import { zodObjectId } from '../objectId';
+import { withRelation } from '../relations';
 import {
   createMongooseModel,
+  withMongooseOptions,
+  zodDiscriminatedUnionToMongoose,
   zodToMongoose,
   zodToObject,
+  zodToObjectAsync,
+  ZodValidationError,
 } from '../zodToMongoose';
 
 jest.mock('mongoose', () => ({
@@ -58,6 +64,264 @@ describe('zodToMongoose', () => {
     );
   });
 
+  describe('String checks', () => {
+    const runValidators = (field: any, value: unknown) =>
+      [field.validate ?? []]
+        .flat()
+        .filter((validator: any) => !validator.validator(value))
+        .map((validator: any) => validator.message);
+
+    it('should map length, trim and case checks', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          code: z.string().length(6).trim().toUpperCase(),
+          username: z.string().toLowerCase(),
+        })
+      );
+
+      expect(mongooseSchema.code).toEqual({
+        type: String,
+        minlength: 6,
+        maxlength: 6,
+        trim: true,
+        uppercase: true,
+        required: true,
+      });
+      expect(mongooseSchema.username).toEqual({
+        type: String,
+        lowercase: true,
+        required: true,
+      });
+    });
+
+    it('should combine several pattern checks instead of overwriting them', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          email: z
+            .string()
+            .email()
+            .regex(/@example\.com$/, 'Must be a company email'),
+        })
+      );
+      const field = mongooseSchema.email as any;
+
+      expect(field.match).toEqual(/^[^\s@]+@[^\s@]+\.[^\s@]+$/);
+      expect(runValidators(field, 'jane@gmail.com')).toEqual([
+        'Must be a company email',
+      ]);
+      expect(runValidators(field, 'jane@example.com')).toEqual([]);
+    });
+
+    it('should map startsWith, endsWith and includes to validators', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          sku: z.string().startsWith('SKU-').endsWith('-X').includes('00'),
+        })
+      );
+      const field = mongooseSchema.sku as any;
+
+      expect(runValidators(field, 'SKU-100-X')).toEqual([]);
+      expect(runValidators(field, 'ABC-123-Y')).toEqual([
+        '{PATH} must start with "SKU-"',
+        '{PATH} must end with "-X"',
+        '{PATH} must include "00"',
+      ]);
+    });
+
+    it('should validate string formats with readable messages', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          website: z.string().url(),
+          externalId: z.string().uuid('Invalid external id'),
+          trackingId: z.string().cuid(),
+          publishedAt: z.string().datetime(),
+          lastIp: z.string().ip({ version: 'v4' }),
+        })
+      );
+
+      expect(runValidators(mongooseSchema.website, 'not a url')).toEqual([
+        '{PATH} must be a valid URL',
+      ]);
+      expect(
+        runValidators(mongooseSchema.website, 'https://example.com')
+      ).toEqual([]);
+      expect(runValidators(mongooseSchema.externalId, '123')).toEqual([
+        'Invalid external id',
+      ]);
+      expect(
+        runValidators(
+          mongooseSchema.externalId,
+          '5f2b6c1e-8d7a-4b3c-9e2f-1a2b3c4d5e6f'
+        )
+      ).toEqual([]);
+      expect(runValidators(mongooseSchema.trackingId, 'not-a-cuid')).toEqual([
+        '{PATH} must be a valid CUID',
+      ]);
+      expect(
+        runValidators(mongooseSchema.publishedAt, '2024-01-01T00:00:00Z')
+      ).toEqual([]);
+      expect(runValidators(mongooseSchema.publishedAt, '2024-01-01')).toEqual([
+        '{PATH} must be a valid ISO 8601 datetime',
+      ]);
+      expect(runValidators(mongooseSchema.lastIp, '::1')).toEqual([
+        '{PATH} must be a valid IP address',
+      ]);
+      expect(runValidators(mongooseSchema.lastIp, '127.0.0.1')).toEqual([]);
+    });
+  });
+
+  describe('Number, date, bigint and array constraints', () => {
+    const runValidators = (field: any, value: unknown) =>
+      [field.validate ?? []]
+        .flat()
+        .filter((validator: any) => !validator.validator(value))
+        .map((validator: any) => validator.message);
+
+    it('should map exclusive bounds, multipleOf and finite checks', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          price: z.number().gt(0).lte(1000),
+          discount: z.number().gte(0, 'Discount cannot be negative').lt(1),
+          quantity: z.number().int().multipleOf(5),
+          ratio: z.number().multipleOf(0.01).finite(),
+        })
+      );
+
+      expect(mongooseSchema.price).toEqual(
+        expect.objectContaining({ type: Number, max: 1000 })
+      );
+      expect(runValidators(mongooseSchema.price, 0)).toEqual([
+        '{PATH} must be greater than 0',
+      ]);
+      expect(runValidators(mongooseSchema.price, 0.5)).toEqual([]);
+
+      expect(mongooseSchema.discount).toEqual(
+        expect.objectContaining({ min: [0, 'Discount cannot be negative'] })
+      );
+      expect(runValidators(mongooseSchema.discount, 1)).toEqual([
+        '{PATH} must be less than 1',
+      ]);
+
+      expect(runValidators(mongooseSchema.quantity, 7)).toEqual([
+        '{PATH} must be a multiple of 5',
+      ]);
+      expect(runValidators(mongooseSchema.quantity, 10)).toEqual([]);
+
+      expect(runValidators(mongooseSchema.ratio, 0.07)).toEqual([]);
+      expect(runValidators(mongooseSchema.ratio, 0.075)).toEqual([
+        '{PATH} must be a multiple of 0.01',
+      ]);
+      expect(runValidators(mongooseSchema.ratio, Infinity)).toEqual([
+        '{PATH} must be a multiple of 0.01',
+        '{PATH} must be a finite number',
+      ]);
+    });
+
+    it('should map date bounds', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          startsAt: z
+            .date()
+            .min(new Date('2020-01-01'))
+            .max(new Date('2030-01-01'), 'Too far in the future'),
+        })
+      );
+
+      expect(mongooseSchema.startsAt).toEqual({
+        type: Date,
+        min: new Date('2020-01-01'),
+        max: [new Date('2030-01-01'), 'Too far in the future'],
+        required: true,
+      });
+    });
+
+    it('should map bigint fields and their checks', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          balance: z.bigint().nonnegative().lt(BigInt(100)),
+        })
+      );
+      const field = mongooseSchema.balance as any;
+
+      expect(field.type).toBe(BigInt);
+      expect(runValidators(field, BigInt(-1))).toEqual([
+        '{PATH} must be greater than or equal to 0',
+      ]);
+      expect(runValidators(field, BigInt(100))).toEqual([
+        '{PATH} must be less than 100',
+      ]);
+      expect(runValidators(field, BigInt(42))).toEqual([]);
+    });
+
+    it('should map array length checks to validators', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          tags: z.array(z.string()).min(1).max(3),
+          coordinates: z.array(z.number()).length(2, 'Need exactly 2 values'),
+        })
+      );
+
+      expect(runValidators(mongooseSchema.tags, [])).toEqual([
+        '{PATH} must contain at least 1 element(s)',
+      ]);
+      expect(runValidators(mongooseSchema.tags, ['a', 'b', 'c', 'd'])).toEqual([
+        '{PATH} must contain at most 3 element(s)',
+      ]);
+      expect(runValidators(mongooseSchema.tags, ['a'])).toEqual([]);
+      expect(runValidators(mongooseSchema.coordinates, [1])).toEqual([
+        'Need exactly 2 values',
+      ]);
+    });
+
+    it('should give arrays of enums, dates and literals typed elements', async () => {
+      const actualMongoose = jest.requireActual('mongoose');
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          roles: z.array(z.enum(['admin', 'user'])),
+          holidays: z.array(z.date().min(new Date('2000-01-01'))),
+          flags: z.array(z.literal('beta')),
+          matrix: z.array(z.array(z.number())),
+        })
+      );
+
+      expect(mongooseSchema.roles).toEqual({
+        type: [{ type: String, enum: ['admin', 'user'] }],
+        required: true,
+      });
+      expect(mongooseSchema.holidays).toEqual({
+        type: [{ type: Date, min: new Date('2000-01-01') }],
+        required: true,
+      });
+      expect(mongooseSchema.flags).toEqual({
+        type: [{ type: String, enum: ['beta'] }],
+        required: true,
+      });
+      expect(mongooseSchema.matrix).toEqual({
+        type: [[Number]],
+        required: true,
+      });
+
+      const TypedArrays = actualMongoose.model(
+        'TypedArrays',
+        new actualMongoose.Schema(mongooseSchema)
+      );
+      const error = await new TypedArrays({
+        roles: ['owner'],
+        holidays: [new Date('1999-12-31')],
+        flags: ['alpha'],
+        matrix: [[1, 2]],
+      })
+        .validate()
+        .catch((err: unknown) => err);
+
+      expect(Object.keys(error.errors).sort()).toEqual([
+        'flags.0',
+        'holidays.0',
+        'roles.0',
+      ]);
+    });
+  });
+
   it('should handle optional fields', () => {
     const zodSchema = z.object({
       name: z.string().optional(),
@@ -81,6 +345,53 @@ describe('zodToMongoose', () => {
     );
   });
 
+  it('should distinguish optional, nullable and nullish fields', async () => {
+    const actualMongoose = jest.requireActual('mongoose');
+    const mongooseSchema = zodToMongoose(
+      z.object({
+        nickname: z.string().optional(),
+        deletedAt: z.date().nullable(),
+        bio: z.string().nullish(),
+        score: z.number().int().nullable(),
+        parentId: z.string().nullable().default(null),
+        address: z.object({ street: z.string().nullable() }),
+      })
+    );
+
+    expect(mongooseSchema.nickname).toEqual({ type: String, required: false });
+    expect(mongooseSchema.bio).toEqual({ type: String, required: false });
+    expect(mongooseSchema.deletedAt).toEqual({
+      type: Date,
+      required: expect.any(Function),
+    });
+    expect(mongooseSchema.parentId).toEqual({
+      type: String,
+      default: null,
+      required: expect.any(Function),
+    });
+
+    const NullableFields = actualMongoose.model(
+      'NullableFields',
+      new actualMongoose.Schema(mongooseSchema)
+    );
+    await expect(
+      new NullableFields({
+        deletedAt: null,
+        score: null,
+        address: { street: null },
+      }).validate()
+    ).resolves.toBeUndefined();
+
+    const error = await new NullableFields({ address: {} })
+      .validate()
+      .catch((err: unknown) => err);
+    expect(Object.keys(error.errors).sort()).toEqual([
+      'address.street',
+      'deletedAt',
+      'score',
+    ]);
+  });
+
   it('should handle default values', () => {
     const zodSchema = z.object({
       name: z.string().default('John Doe'),
@@ -138,15 +449,89 @@ describe('zodToMongoose', () => {
     });
 
     const mongooseSchema = zodToMongoose(zodSchema);
+    const userField = mongooseSchema.user as any;
 
-    expect(mongooseSchema.user).toEqual(
-      expect.objectContaining({
-        type: mongoose.Schema.Types.Mixed,
-        required: true,
-      })
+    expect(userField.required).toBe(true);
+    expect(userField.type).toBeInstanceOf(mongoose.Schema);
+    expect(userField.type.obj).toEqual({
+      name: { type: String, required: true },
+      age: { type: Number, required: true },
+    });
+  });
+
+  it('should convert arrays of Zod objects to document arrays', () => {
+    const zodSchema = z.object({
+      lineItems: z.array(
+        z.object({
+          sku: z.string().min(3),
+          quantity: z.number().default(1),
+          note: z.string().optional(),
+        })
+      ),
+    });
+
+    const mongooseSchema = zodToMongoose(zodSchema);
+    const lineItemsField = mongooseSchema.lineItems as any;
+
+    expect(lineItemsField.required).toBe(true);
+    expect(lineItemsField.type).toHaveLength(1);
+    expect(lineItemsField.type[0]).toBeInstanceOf(mongoose.Schema);
+    expect(lineItemsField.type[0].obj).toEqual({
+      sku: { type: String, minlength: 3, required: true },
+      quantity: { type: Number, default: 1, required: true },
+      note: { type: String, required: false },
+    });
+  });
+
+  it('should only give subdocuments an _id when asked to', () => {
+    const zodSchema = z.object({
+      address: z.object({ city: z.string() }),
+      lineItems: z.array(z.object({ sku: z.string() })),
+    });
+    const actualMongoose = jest.requireActual('mongoose');
+    const data = { address: { city: 'Paris' }, lineItems: [{ sku: 'abc' }] };
+
+    const toObject = (modelName: string, subdocumentIds?: boolean) => {
+      const Model = actualMongoose.model(
+        modelName,
+        new actualMongoose.Schema(
+          zodToMongoose(zodSchema, {}, { subdocumentIds })
+        )
+      );
+      return new Model(data).toObject();
+    };
+
+    const withoutIds = toObject('SubdocumentsWithoutIds');
+    expect(withoutIds.address).toEqual({ city: 'Paris' });
+    expect(withoutIds.lineItems).toEqual([{ sku: 'abc' }]);
+
+    const withIds = toObject('SubdocumentsWithIds', true);
+    expect(withIds.address._id).toBeInstanceOf(actualMongoose.Types.ObjectId);
+    expect(withIds.lineItems[0]._id).toBeInstanceOf(
+      actualMongoose.Types.ObjectId
     );
   });
 
+  it('should forward dotted relationship mappings to nested objects', () => {
+    const zodSchema = z.object({
+      address: z.object({
+        street: z.string(),
+        countryId: z.string(),
+      }),
+    });
+
+    const mongooseSchema = zodToMongoose(zodSchema, {
+      'address.countryId': 'Country',
+    });
+    const addressSchema = (mongooseSchema.address as any).type;
+
+    expect(addressSchema.obj.countryId).toEqual({
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Country',
+      required: true,
+    });
+  });
+
   it('should throw an error for invalid Zod schemas', () => {
     const invalidZodSchema = z.object({
       name: z.string().min(2),
@@ -178,6 +563,99 @@ describe('zodToMongoose', () => {
     });
   });
 
+  it('should unwrap refinements and transforms around fields and objects', () => {
+    const zodSchema = z
+      .object({
+        slug: z
+          .string()
+          .min(3)
+          .transform((value) => value.toLowerCase()),
+        password: z.string(),
+        confirmPassword: z.string(),
+      })
+      .refine((data) => data.password === data.confirmPassword, {
+        path: ['confirmPassword'],
+      });
+
+    const mongooseSchema = zodToMongoose(zodSchema);
+
+    expect(mongooseSchema.slug).toEqual({
+      type: String,
+      minlength: 3,
+      required: true,
+    });
+    expect(Object.keys(mongooseSchema)).toEqual([
+      'slug',
+      'password',
+      'confirmPassword',
+    ]);
+  });
+
+  describe('withMongooseOptions', () => {
+    it('should apply field-level Mongoose options', () => {
+      const zodSchema = z.object({
+        email: withMongooseOptions(z.string().email(), {
+          unique: true,
+          lowercase: true,
+          trim: true,
+        }),
+        passwordHash: withMongooseOptions(z.string(), { select: false }),
+        createdBy: withMongooseOptions(z.string(), {
+          immutable: true,
+          index: true,
+          alias: 'author',
+        }),
+        nickname: withMongooseOptions(z.string(), {
+          unique: true,
+          sparse: true,
+        }).optional(),
+      });
+
+      const mongooseSchema = zodToMongoose(zodSchema);
+
+      expect(mongooseSchema.email).toEqual(
+        expect.objectContaining({
+          type: String,
+          unique: true,
+          lowercase: true,
+          trim: true,
+          required: true,
+        })
+      );
+      expect(mongooseSchema.passwordHash).toEqual(
+        expect.objectContaining({ select: false })
+      );
+      expect(mongooseSchema.createdBy).toEqual(
+        expect.objectContaining({
+          immutable: true,
+          index: true,
+          alias: 'author',
+        })
+      );
+      expect(mongooseSchema.nickname).toEqual({
+        type: String,
+        unique: true,
+        sparse: true,
+        required: false,
+      });
+    });
+
+    it('should keep options through chained checks without mutating the original schema', () => {
+      const baseString = z.string();
+      const zodSchema = z.object({
+        code: withMongooseOptions(baseString, { unique: true }).min(3),
+        label: baseString,
+      });
+
+      const mongooseSchema = zodToMongoose(zodSchema);
+
+      expect(mongooseSchema.code).toEqual(
+        expect.objectContaining({ unique: true, minlength: 3 })
+      );
+      expect(mongooseSchema.label).toEqual({ type: String, required: true });
+    });
+  });
+
   describe('Relationships', () => {
     // One-to-One Relationship
     it('should handle one-to-one relationships', () => {
@@ -330,6 +808,257 @@ describe('zodToMongoose', () => {
     });
   });
 
+  describe('Discriminated unions', () => {
+    const eventSchema = z.discriminatedUnion('type', [
+      z.object({
+        type: z.literal('click'),
+        occurredAt: z.date(),
+        userId: z.string(),
+        x: z.number(),
+        y: z.number(),
+      }),
+      z.object({
+        type: z.literal('purchase'),
+        occurredAt: z.date(),
+        userId: z.string(),
+        amount: z.number().min(0),
+      }),
+    ]);
+
+    it('should split shared and variant fields', () => {
+      const { discriminatorKey, baseDefinition, variants } =
+        zodDiscriminatedUnionToMongoose(eventSchema, { userId: 'User' });
+
+      expect(discriminatorKey).toBe('type');
+      expect(baseDefinition).toEqual({
+        occurredAt: { type: Date, required: true },
+        userId: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+      });
+      expect(variants).toEqual([
+        {
+          value: 'click',
+          definition: {
+            x: { type: Number, required: true },
+            y: { type: Number, required: true },
+          },
+        },
+        {
+          value: 'purchase',
+          definition: {
+            amount: { type: Number, min: 0, required: true },
+          },
+        },
+      ]);
+    });
+
+    it('should keep fields declared differently in each variant', () => {
+      const { baseDefinition, variants } = zodDiscriminatedUnionToMongoose(
+        z.discriminatedUnion('kind', [
+          z.object({ kind: z.literal('text'), value: z.string() }),
+          z.object({ kind: z.literal('count'), value: z.number().int() }),
+        ])
+      );
+
+      expect(baseDefinition).toEqual({});
+      expect(variants).toEqual([
+        {
+          value: 'text',
+          definition: { value: { type: String, required: true } },
+        },
+        {
+          value: 'count',
+          definition: {
+            value: expect.objectContaining({ type: Number, required: true }),
+          },
+        },
+      ]);
+    });
+
+    it('should register one discriminator per variant', () => {
+      jest.clearAllMocks();
+      const discriminator = jest.fn();
+      (mongoose.model as jest.Mock).mockImplementationOnce((name) => ({
+        modelName: name,
+        discriminator,
+      }));
+
+      const model = createMongooseModel('Event', eventSchema);
+
+      expect(model.modelName).toBe('Event');
+      const baseSchema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      expect(baseSchema.options.discriminatorKey).toBe('type');
+      expect(discriminator).toHaveBeenCalledTimes(2);
+      expect(discriminator).toHaveBeenCalledWith(
+        'EventClick',
+        expect.any(mongoose.Schema),
+        'click'
+      );
+      expect(discriminator).toHaveBeenCalledWith(
+        'EventPurchase',
+        expect.any(mongoose.Schema),
+        'purchase'
+      );
+    });
+  });
+
+  describe('zodObjectId', () => {
+    it('should map zodObjectId fields to ObjectId references', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({
+          authorId: zodObjectId('User'),
+          reviewerId: zodObjectId('User').nullable(),
+          tagIds: z.array(zodObjectId('Tag')).min(1),
+          externalId: zodObjectId(),
+          editor: zodObjectId('User').describe('Last editor'),
+          ownerId: zodObjectId('User'),
+        }),
+        { ownerId: 'Account' }
+      );
+
+      expect(mongooseSchema.authorId).toEqual({
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+      });
+      expect(mongooseSchema.reviewerId).toEqual({
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: expect.any(Function),
+      });
+      expect(mongooseSchema.tagIds).toEqual(
+        expect.objectContaining({
+          type: [mongoose.Schema.Types.ObjectId],
+          ref: 'Tag',
+          required: true,
+        })
+      );
+      expect(mongooseSchema.externalId).toEqual({
+        type: mongoose.Schema.Types.ObjectId,
+        required: true,
+      });
+      expect(mongooseSchema.editor).toEqual(
+        expect.objectContaining({ ref: 'User' })
+      );
+      expect(mongooseSchema.ownerId).toEqual(
+        expect.objectContaining({ ref: 'Account' })
+      );
+    });
+
+    it('should infer references for zodObjectId fields named after known models', () => {
+      const mongooseSchema = zodToMongoose(
+        z.object({ groupId: zodObjectId() }),
+        undefined,
+        { modelNameToSchema: new Map([['Group', z.object({})]]) }
+      );
+
+      expect(mongooseSchema.groupId).toEqual(
+        expect.objectContaining({ ref: 'Group' })
+      );
+    });
+  });
+
+  describe('Reference inference', () => {
+    const userSchema = z.object({ name: z.string() });
+    const groupSchema = z.object({ name: z.string() });
+    const modelNameToSchema = new Map<string, any>([
+      ['User', userSchema],
+      ['Group', groupSchema],
+    ]);
+
+    it('should infer references from fooId and fooIds fields of known models', () => {
+      const postSchema = z.object({
+        title: z.string(),
+        userId: z.string(),
+        groupIds: z.array(z.string()),
+        reviewerId: z.string().optional(),
+        externalId: z.string(),
+      });
+
+      const mongooseSchema = zodToMongoose(postSchema, undefined, {
+        modelNameToSchema,
+      });
+
+      expect(mongooseSchema.userId).toEqual({
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+      });
+      expect(mongooseSchema.groupIds).toEqual({
+        type: [mongoose.Schema.Types.ObjectId],
+        ref: 'Group',
+        required: true,
+      });
+      expect(mongooseSchema.reviewerId).toEqual({
+        type: String,
+        required: false,
+      });
+      expect(mongooseSchema.externalId).toEqual({
+        type: String,
+        required: true,
+      });
+    });
+
+    it('should let explicit mappings override inferred references', () => {
+      const postSchema = z.object({
+        userId: z.string(),
+        authorId: z.string(),
+      });
+
+      const mongooseSchema = zodToMongoose(
+        postSchema,
+        { userId: 'Member', authorId: 'User' },
+        { modelNameToSchema }
+      );
+
+      expect(mongooseSchema.userId).toEqual(
+        expect.objectContaining({ ref: 'Member' })
+      );
+      expect(mongooseSchema.authorId).toEqual(
+        expect.objectContaining({ ref: 'User' })
+      );
+    });
+
+    it('should use declared relations instead of the field name', () => {
+      const postSchema = z.object({
+        userId: withRelation(z.string(), { model: 'Member' }),
+        editor: withRelation(z.string(), { model: 'User' }).optional(),
+        tagIds: z.array(withRelation(z.string(), { model: 'Tag' })),
+        authorEmail: withRelation(z.string().email(), {
+          model: 'User',
+          references: 'email',
+        }),
+      });
+
+      const mongooseSchema = zodToMongoose(postSchema, undefined, {
+        modelNameToSchema,
+      });
+
+      expect(mongooseSchema.userId).toEqual(
+        expect.objectContaining({ ref: 'Member' })
+      );
+      expect(mongooseSchema.editor).toEqual({
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: false,
+      });
+      expect(mongooseSchema.tagIds).toEqual(
+        expect.objectContaining({
+          type: [mongoose.Schema.Types.ObjectId],
+          ref: 'Tag',
+        })
+      );
+      // Relations to other fields keep the type of the key
+      expect(mongooseSchema.authorEmail).toEqual(
+        expect.objectContaining({ type: String, required: true })
+      );
+      expect(mongooseSchema.authorEmail).not.toHaveProperty('ref');
+    });
+  });
+
   describe('createMongooseModel', () => {
     beforeEach(() => {
       jest.clearAllMocks();
@@ -351,6 +1080,440 @@ describe('zodToMongoose', () => {
       );
     });
 
+    it('should enforce refinements when validateWithZod is enabled', async () => {
+      const actualMongoose = jest.requireActual('mongoose');
+      const zodSchema = z
+        .object({
+          username: z
+            .string()
+            .refine((value) => !value.includes(' '), 'No spaces allowed'),
+          password: z.string(),
+          confirmPassword: z.string(),
+        })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: 'Passwords do not match',
+          path: ['confirmPassword'],
+        });
+
+      createMongooseModel('RefinedUser', zodSchema, undefined, {
+        validateWithZod: true,
+      });
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      const RefinedUser = actualMongoose.model('RefinedUser', schema);
+
+      const fieldValidator = (schema.obj.username as any).validate;
+      expect(fieldValidator.validator('john doe')).toBe(false);
+      expect(fieldValidator.validator('johndoe')).toBe(true);
+
+      const error = await new RefinedUser({
+        username: 'john doe',
+        password: 'secret',
+        confirmPassword: 'other',
+      })
+        .validate()
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(actualMongoose.Error.ValidationError);
+      expect(error.errors.username.message).toBe('No spaces allowed');
+      expect(error.errors.confirmPassword.message).toBe(
+        'Passwords do not match'
+      );
+
+      await expect(
+        new RefinedUser({
+          username: 'johndoe',
+          password: 'secret',
+          confirmPassword: 'secret',
+        }).validate()
+      ).resolves.toBeUndefined();
+    });
+
+    it('should validate update queries when validateUpdatesWithZod is enabled', async () => {
+      const actualMongoose = jest.requireActual('mongoose');
+      const zodSchema = z.object({
+        title: z.string(),
+        tags: z.array(z.string().min(2)),
+        address: z.object({ city: z.string(), zip: z.string().length(5) }),
+      });
+
+      createMongooseModel('UpdatedPost', zodSchema, undefined, {
+        validateUpdatesWithZod: true,
+        schemaOptions: { bufferCommands: false },
+      });
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      const UpdatedPost = actualMongoose.model('UpdatedPost', schema);
+
+      const error = await UpdatedPost.updateMany(
+        {},
+        {
+          $set: { 'address.zip': '123', unknownField: 1 },
+          $push: { tags: { $each: ['ok', 'x'] } },
+          $unset: { title: '' },
+        }
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(actualMongoose.Error.ValidationError);
+      expect(Object.keys(error.errors).sort()).toEqual([
+        'address.zip',
+        'tags',
+        'title',
+      ]);
+      expect(error.errors['address.zip'].value).toBe('123');
+    });
+
+    it('should validate replacement documents when validateUpdatesWithZod is enabled', async () => {
+      const actualMongoose = jest.requireActual('mongoose');
+      const zodSchema = z
+        .object({
+          title: z.string(),
+          password: z.string(),
+          confirm: z.string(),
+        })
+        .refine((value) => value.password === value.confirm, {
+          message: 'Passwords do not match',
+          path: ['confirm'],
+        });
+
+      createMongooseModel('ReplacedPost', zodSchema, undefined, {
+        validateUpdatesWithZod: true,
+        schemaOptions: { bufferCommands: false },
+      });
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      const ReplacedPost = actualMongoose.model('ReplacedPost', schema);
+
+      const replaceError = await ReplacedPost.replaceOne(
+        {},
+        { password: 'secret', confirm: 'secret' }
+      ).catch((err: unknown) => err);
+      const findError = await ReplacedPost.findOneAndReplace(
+        {},
+        { title: 'Title', password: 'secret', confirm: 'other' }
+      ).catch((err: unknown) => err);
+
+      expect(replaceError).toBeInstanceOf(actualMongoose.Error.ValidationError);
+      expect(Object.keys(replaceError.errors)).toEqual(['title']);
+      expect(findError).toBeInstanceOf(actualMongoose.Error.ValidationError);
+      expect(findError.errors.confirm.message).toBe('Passwords do not match');
+    });
+
+    it('should declare indexes before registering the model', () => {
+      const zodSchema = z.object({
+        tenantId: z.string(),
+        email: z.string(),
+        title: z.string(),
+        body: z.string(),
+        deletedAt: z.date().optional(),
+        expiresAt: z.date(),
+      });
+
+      createMongooseModel('IndexedModel', zodSchema, undefined, {
+        indexes: [
+          { fields: { tenantId: 1, email: 1 }, options: { unique: true } },
+          {
+            fields: { title: 'text', body: 'text' },
+            options: { weights: { title: 10, body: 1 } },
+          },
+          {
+            fields: { email: 1 },
+            options: { partialFilterExpression: { deletedAt: null } },
+          },
+          { fields: { expiresAt: 1 }, options: { expireAfterSeconds: 0 } },
+        ],
+      });
+
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      expect(schema.indexes()).toEqual([
+        [{ tenantId: 1, email: 1 }, expect.objectContaining({ unique: true })],
+        [
+          { title: 'text', body: 'text' },
+          expect.objectContaining({ weights: { title: 10, body: 1 } }),
+        ],
+        [
+          { email: 1 },
+          expect.objectContaining({
+            partialFilterExpression: { deletedAt: null },
+          }),
+        ],
+        [{ expiresAt: 1 }, expect.objectContaining({ expireAfterSeconds: 0 })],
+      ]);
+    });
+
+    it('should merge schema options over the default timestamps', () => {
+      const zodSchema = z.object({ title: z.string() });
+
+      createMongooseModel('ConfiguredModel', zodSchema, undefined, {
+        schemaOptions: {
+          collection: 'configured_items',
+          versionKey: false,
+          strict: 'throw',
+        },
+      });
+      createMongooseModel('UntimedModel', zodSchema, undefined, {
+        schemaOptions: { timestamps: false },
+      });
+
+      const [configuredCall, untimedCall] = (mongoose.model as jest.Mock).mock
+        .calls;
+      expect(configuredCall[1].options).toEqual(
+        expect.objectContaining({
+          timestamps: true,
+          collection: 'configured_items',
+          versionKey: false,
+          strict: 'throw',
+        })
+      );
+      expect(untimedCall[1].options.timestamps).toBe(false);
+    });
+
+    it('should register the model on the given connection', () => {
+      const zodSchema = z.object({ title: z.string() });
+      const connection = {
+        models: {} as Record<string, any>,
+        model: jest.fn((name) => ({ modelName: name })),
+      };
+
+      const model = createMongooseModel('TenantModel', zodSchema, undefined, {
+        connection: connection as any,
+      });
+
+      expect(model.modelName).toBe('TenantModel');
+      expect(connection.model).toHaveBeenCalledWith(
+        'TenantModel',
+        expect.any(mongoose.Schema)
+      );
+      expect(mongoose.model).not.toHaveBeenCalled();
+
+      // The existing-model check looks at the connection's registry
+      connection.models.TenantModel = model;
+      (mongoose.models as any).OtherTenantModel = { modelName: 'global' };
+      const otherModel = createMongooseModel(
+        'OtherTenantModel',
+        zodSchema,
+        undefined,
+        { connection: connection as any }
+      );
+      expect(otherModel.modelName).toBe('OtherTenantModel');
+      expect(
+        createMongooseModel('TenantModel', zodSchema, undefined, {
+          connection: connection as any,
+        })
+      ).toBe(model);
+      expect(connection.model).toHaveBeenCalledTimes(2);
+    });
+
+    it('should infer the document type from the Zod schema', () => {
+      type Equals<A, B> = (<V>() => V extends A ? 1 : 2) extends <
+        V
+      >() => V extends B ? 1 : 2
+        ? true
+        : false;
+
+      const postSchema = z.object({
+        title: z.string(),
+        views: z.number().optional(),
+        authorId: z.string(),
+        tagIds: z.array(z.string()),
+        reviewerId: z.string().optional(),
+      });
+
+      const Post = createMongooseModel('TypedPost', postSchema, {
+        authorId: 'User',
+        tagIds: 'Tag',
+        reviewerId: 'User',
+      });
+      const UntimedPost = createMongooseModel(
+        'UntimedTypedPost',
+        postSchema,
+        undefined,
+        { schemaOptions: { timestamps: false } }
+      );
+
+      type PostDoc = typeof Post extends mongoose.Model<infer TRaw>
+        ? TRaw
+        : never;
+      type UntimedPostDoc = typeof UntimedPost extends mongoose.Model<
+        infer TRaw
+      >
+        ? TRaw
+        : never;
+      type HydratedPost = InstanceType<typeof Post>;
+      const findLeanPost = () => Post.findOne().lean().exec();
+      type LeanPost = NonNullable<Awaited<ReturnType<typeof findLeanPost>>>;
+
+      const checks: [
+        Equals<PostDoc['title'], string>,
+        Equals<PostDoc['views'], number | undefined>,
+        Equals<PostDoc['authorId'], mongoose.Types.ObjectId>,
+        Equals<PostDoc['tagIds'], mongoose.Types.ObjectId[]>,
+        Equals<PostDoc['reviewerId'], mongoose.Types.ObjectId | undefined>,
+        Equals<PostDoc['createdAt'], Date>,
+        Equals<LeanPost['authorId'], mongoose.Types.ObjectId>,
+        Equals<LeanPost['_id'], mongoose.Types.ObjectId>,
+        Equals<HydratedPost['title'], string>,
+        Equals<'createdAt' extends keyof UntimedPostDoc ? true : false, false>,
+        Equals<UntimedPostDoc['title'], string>
+      ] = [true, true, true, true, true, true, true, true, true, true, true];
+
+      expect(checks.every(Boolean)).toBe(true);
+    });
+
+    it('should type zodObjectId fields as ObjectIds', () => {
+      type Equals<A, B> = (<V>() => V extends A ? 1 : 2) extends <
+        V
+      >() => V extends B ? 1 : 2
+        ? true
+        : false;
+
+      const commentSchema = z.object({
+        body: z.string(),
+        metadata: z.any(),
+        authorId: zodObjectId('User'),
+        parentId: zodObjectId('Comment').optional(),
+        mentionIds: z.array(zodObjectId('User')),
+      });
+
+      const Comment = createMongooseModel('TypedComment', commentSchema);
+      type CommentDoc = typeof Comment extends mongoose.Model<infer TRaw>
+        ? TRaw
+        : never;
+
+      const checks: [
+        Equals<CommentDoc['body'], string>,
+        Equals<CommentDoc['metadata'], any>,
+        Equals<CommentDoc['authorId'], mongoose.Types.ObjectId>,
+        Equals<CommentDoc['parentId'], mongoose.Types.ObjectId | undefined>,
+        Equals<CommentDoc['mentionIds'], mongoose.Types.ObjectId[]>
+      ] = [true, true, true, true, true];
+
+      expect(checks.every(Boolean)).toBe(true);
+    });
+
+    it('should register virtual populate fields for reverse relations', () => {
+      const userSchema = z.object({ name: z.string() });
+      const postSchema = z.object({
+        title: z.string(),
+        userId: z.string(),
+      });
+      const messageSchema = z.object({
+        body: z.string(),
+        senderId: z.string(),
+        recipientId: z.string(),
+      });
+      const profileSchema = z.object({ bio: z.string(), owner: z.string() });
+      const categorySchema = z.object({ name: z.string() });
+
+      createMongooseModel('VirtualUser', userSchema, undefined, {
+        relatedModels: [
+          {
+            name: 'Post',
+            schema: postSchema,
+            relationshipMappings: { userId: 'VirtualUser' },
+          },
+          {
+            name: 'Message',
+            schema: messageSchema,
+            relationshipMappings: {
+              senderId: 'VirtualUser',
+              recipientId: 'VirtualUser',
+            },
+            virtualNames: { senderId: 'sentMessages' },
+          },
+          {
+            name: 'Profile',
+            schema: profileSchema,
+            relationshipMappings: { owner: 'VirtualUser' },
+            justOne: true,
+          },
+          { name: 'Category', schema: categorySchema },
+        ],
+      });
+
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      expect(Object.keys(schema.virtuals)).toEqual([
+        'posts',
+        'sentMessages',
+        'messagesByRecipient',
+        'profile',
+      ]);
+      expect(schema.virtuals.posts.options).toEqual(
+        expect.objectContaining({
+          ref: 'Post',
+          localField: '_id',
+          foreignField: 'userId',
+          justOne: false,
+        })
+      );
+      expect(schema.virtuals.messagesByRecipient.options).toEqual(
+        expect.objectContaining({
+          ref: 'Message',
+          foreignField: 'recipientId',
+        })
+      );
+      expect(schema.virtuals.profile.options).toEqual(
+        expect.objectContaining({
+          ref: 'Profile',
+          foreignField: 'owner',
+          justOne: true,
+        })
+      );
+    });
+
+    it('should infer reverse relations from the model registry', () => {
+      const groupSchema = z.object({ name: z.string() });
+      const userSchema = z.object({
+        name: z.string(),
+        groupIds: z.array(z.string()),
+      });
+
+      createMongooseModel('Group', groupSchema, undefined, {
+        modelNameToSchema: new Map<string, any>([
+          ['Group', groupSchema],
+          ['User', userSchema],
+        ]),
+        relatedModels: [{ name: 'User', schema: userSchema }],
+      });
+
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      expect(schema.virtuals.users.options).toEqual(
+        expect.objectContaining({
+          ref: 'User',
+          localField: '_id',
+          foreignField: 'groupIds',
+          justOne: false,
+        })
+      );
+    });
+
+    it('should register virtual populate fields for relations to other fields than the id', () => {
+      const postSchema = z.object({
+        title: z.string(),
+        authorEmail: withRelation(z.string().email(), {
+          model: 'User',
+          references: 'email',
+          relationField: 'author',
+        }),
+        reviewerEmail: withRelation(z.string(), {
+          model: 'User',
+          references: 'email',
+        }),
+      });
+
+      createMongooseModel('ForeignFieldPost', postSchema);
+
+      const schema = (mongoose.model as jest.Mock).mock.calls[0][1];
+      expect(schema.virtuals.author.options).toEqual(
+        expect.objectContaining({
+          ref: 'User',
+          localField: 'authorEmail',
+          foreignField: 'email',
+          justOne: true,
+        })
+      );
+      expect(schema.virtuals.reviewerEmailRelation.options).toEqual(
+        expect.objectContaining({ localField: 'reviewerEmail' })
+      );
+    });
+
     it('should return the existing model if it already exists', () => {
       const zodSchema = z.object({
         title: z.string(),
@@ -415,5 +1578,154 @@ describe('zodToMongoose', () => {
 
       expect(result).toEqual({ name: 'Anonymous', age: 25 });
     });
+
+    it('should throw a ZodValidationError exposing the issues', () => {
+      const zodSchema = z.object({
+        name: z.string().min(2, 'Name is too short'),
+        address: z.object({ city: z.string() }),
+      });
+      const data = { name: 'J', address: {} };
+
+      let error: unknown;
+      try {
+        zodToObject(zodSchema, data);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ZodValidationError);
+      const validationError = error as ZodValidationError;
+      expect(validationError.message).toBe(
+        'Zod validation error: name - Name is too short, address.city - Required'
+      );
+      expect(validationError.issues).toHaveLength(2);
+      expect(validationError.fieldErrors).toEqual({
+        name: ['Name is too short'],
+        'address.city': ['Required'],
+      });
+      expect(validationError.input).toBe(data);
+    });
+
+    it('should report issues on the whole object under _root', () => {
+      const zodSchema = z
+        .object({ password: z.string(), confirm: z.string() })
+        .refine((value) => value.password === value.confirm, 'No match');
+
+      expect(() =>
+        zodToObject(zodSchema, { password: 'a', confirm: 'b' })
+      ).toThrow(
+        expect.objectContaining({ fieldErrors: { _root: ['No match'] } })
+      );
+    });
+
+    it('should handle deep partial validation', () => {
+      const zodSchema = z.object({
+        name: z.string(),
+        address: z.object({ city: z.string(), zip: z.string() }),
+      });
+      const data = { address: { city: 'Paris' } };
+
+      expect(() => zodToObject(zodSchema, data, { partial: true })).toThrow(
+        ZodValidationError
+      );
+      expect(zodToObject(zodSchema, data, { deepPartial: true })).toEqual(data);
+    });
+
+    it('should apply the unknown keys policy', () => {
+      const zodSchema = z.object({ name: z.string() });
+      const data = { name: 'John', role: 'admin' };
+
+      expect(zodToObject(zodSchema, data)).toEqual({ name: 'John' });
+      expect(
+        zodToObject(zodSchema, data, { unknownKeys: 'passthrough' })
+      ).toEqual(data);
+      expect(() =>
+        zodToObject(zodSchema, data, { unknownKeys: 'strict' })
+      ).toThrow(
+        expect.objectContaining({
+          issues: [expect.objectContaining({ code: 'unrecognized_keys' })],
+        })
+      );
+    });
+
+    it('should apply the options under object-level effects', () => {
+      const zodSchema = z
+        .object({ password: z.string(), confirm: z.string() })
+        .refine((value) => value.password === value.confirm, 'No match');
+
+      expect(() =>
+        zodToObject(
+          zodSchema,
+          { password: 'a', confirm: 'a', role: 'admin' },
+          { unknownKeys: 'strict' }
+        )
+      ).toThrow(
+        expect.objectContaining({
+          issues: [expect.objectContaining({ code: 'unrecognized_keys' })],
+        })
+      );
+      expect(() =>
+        zodToObject(
+          zodSchema,
+          { password: 'a', confirm: 'b' },
+          { unknownKeys: 'strip' }
+        )
+      ).toThrow(
+        expect.objectContaining({ fieldErrors: { _root: ['No match'] } })
+      );
+      expect(
+        zodToObject(zodSchema, { password: 'a' }, { partial: true })
+      ).toEqual({ password: 'a' });
+    });
+
+    it('should type and reject partial data of transformed schemas', () => {
+      const zodSchema = z.object({ name: z.string(), age: z.number() });
+      const partial = zodToObject(
+        zodSchema,
+        { name: 'John' },
+        { partial: true }
+      );
+      const age: number | undefined = partial.age;
+      expect(age).toBeUndefined();
+
+      const transformedSchema = zodSchema.transform((value) => ({
+        ...value,
+        isAdult: value.age >= 18,
+      }));
+      expect(
+        zodToObject(
+          transformedSchema,
+          { name: 'John', age: 30 },
+          {
+            unknownKeys: 'strict',
+          }
+        )
+      ).toEqual({ name: 'John', age: 30, isAdult: true });
+      expect(() =>
+        zodToObject(transformedSchema, { name: 'John' }, { partial: true })
+      ).toThrow(
+        'zodToObject cannot apply partial or deepPartial to a schema with object-level transforms.'
+      );
+    });
+
+    it('should run async refinements with zodToObjectAsync', async () => {
+      const zodSchema = z.object({
+        username: z
+          .string()
+          .refine(
+            async (value) => value !== 'taken',
+            'Username is already taken'
+          ),
+      });
+
+      await expect(
+        zodToObjectAsync(zodSchema, { username: 'free' })
+      ).resolves.toEqual({ username: 'free' });
+      await expect(
+        zodToObjectAsync(zodSchema, { username: 'taken' })
+      ).rejects.toMatchObject({
+        fieldErrors: { username: ['Username is already taken'] },
+      });
+    });
   });
 });
@@ -1,5 +1,15 @@
 import { z } from 'zod';
-import { zodToPrisma } from '../zodToPrisma';
+import { zodObjectId } from '../objectId';
+import { withRelation } from '../relations';
+import {
+  createPrismaGenerationContext,
+  generatePrismaEnums,
+  generatePrismaModel,
+  withPrismaAttributes,
+  withPrismaEnumName,
+  withPrismaJoinModel,
+  zodToPrisma,
+} from '../zodToPrisma';
 
 describe('zodToPrisma', () => {
   it('should convert a simple Zod schema to Prisma model', () => {
@@ -16,7 +26,7 @@ describe('zodToPrisma', () => {
     );
 
     expect(result).toContain('model User {');
-    expect(result).toContain('id String @id @unique');
+    expect(result).toContain('id String @id @default(uuid())');
     expect(result).toContain('name String');
     expect(result).toContain('email String?');
   });
@@ -32,9 +42,592 @@ describe('zodToPrisma', () => {
       new Map()
     );
 
-    expect(result).toContain('enum RoleEnum {');
+    expect(result).toContain('enum RoleRoleEnum {');
     expect(result).toContain('USER');
     expect(result).toContain('ADMIN');
+    expect(result).toContain('role RoleRoleEnum');
+  });
+
+  it('should not leak enums between calls', () => {
+    zodToPrisma(
+      [
+        {
+          name: 'Task',
+          schema: z.object({ priority: z.enum(['LOW', 'HIGH']) }),
+        },
+      ],
+      new Map(),
+      new Map()
+    );
+
+    const result = zodToPrisma(
+      [{ name: 'Note', schema: z.object({ text: z.string() }) }],
+      new Map(),
+      new Map()
+    );
+
+    expect(result).not.toContain('enum');
+  });
+
+  it('should namespace enum names by model', () => {
+    const result = zodToPrisma(
+      [
+        {
+          name: 'Order',
+          schema: z.object({ status: z.enum(['PENDING', 'SHIPPED']) }),
+        },
+        {
+          name: 'Invoice',
+          schema: z.object({ status: z.enum(['DRAFT', 'PAID']) }),
+        },
+      ],
+      new Map(),
+      new Map()
+    );
+
+    expect(result).toContain('enum OrderStatusEnum {\n  PENDING\n  SHIPPED\n}');
+    expect(result).toContain('enum InvoiceStatusEnum {\n  DRAFT\n  PAID\n}');
+    expect(result).toContain('status OrderStatusEnum');
+    expect(result).toContain('status InvoiceStatusEnum');
+  });
+
+  it('should use explicit enum names and de-duplicate identical enums', () => {
+    enum Visibility {
+      Public = 'PUBLIC',
+      Private = 'PRIVATE',
+    }
+    const roleEnum = withPrismaEnumName(z.enum(['USER', 'ADMIN']), 'Role');
+
+    const result = zodToPrisma(
+      [
+        {
+          name: 'User',
+          schema: z.object({
+            role: roleEnum.default('USER'),
+            visibility: withPrismaEnumName(
+              z.nativeEnum(Visibility),
+              'Visibility'
+            ),
+            level: z.enum(['LOW', 'HIGH']),
+          }),
+        },
+        {
+          name: 'Invitation',
+          schema: z.object({
+            role: roleEnum,
+            previousRole: z.enum(['USER', 'ADMIN']).optional(),
+            level: z.enum(['LOW', 'HIGH']),
+          }),
+        },
+      ],
+      new Map(),
+      new Map()
+    );
+
+    expect(result.match(/^enum /gm)).toHaveLength(3);
+    expect(result).toContain('enum Role {');
+    expect(result).toContain('enum Visibility {\n  PUBLIC\n  PRIVATE\n}');
+    expect(result).toContain('enum UserLevelEnum {');
+    expect(result).toContain('role Role @default(USER)');
+    expect(result).toContain('previousRole Role?');
+    expect(result).toContain('level UserLevelEnum');
+  });
+
+  it('should reject different enums registered under the same name', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() =>
+      zodToPrisma(
+        [
+          {
+            name: 'User',
+            schema: z.object({
+              role: withPrismaEnumName(z.enum(['USER', 'ADMIN']), 'Role'),
+              teamRole: withPrismaEnumName(z.enum(['OWNER', 'MEMBER']), 'Role'),
+            }),
+          },
+        ],
+        new Map(),
+        new Map()
+      )
+    ).toThrow('Prisma enum "Role" is declared twice with different values.');
+    jest.restoreAllMocks();
+  });
+
+  describe('derived lookup maps', () => {
+    const userSchema = z.object({ id: z.string(), name: z.string() });
+    const postSchema = z.object({
+      id: z.string(),
+      title: z.string(),
+      userId: z.string(),
+    });
+    const commentSchema = z.object({ id: z.string(), body: z.string() });
+    const threadSchema = z.object({
+      id: z.string(),
+      comments: z.array(commentSchema),
+    });
+
+    const legacyResult = zodToPrisma(
+      [
+        { name: 'User', schema: userSchema },
+        { name: 'Post', schema: postSchema },
+        { name: 'Comment', schema: commentSchema },
+        { name: 'Thread', schema: threadSchema },
+      ],
+      new Map<any, string>([
+        [userSchema, 'User'],
+        [postSchema, 'Post'],
+        [commentSchema, 'Comment'],
+        [threadSchema, 'Thread'],
+      ]),
+      new Map<string, any>([
+        ['User', userSchema],
+        ['Post', postSchema],
+        ['Comment', commentSchema],
+        ['Thread', threadSchema],
+      ])
+    );
+
+    it('should accept a record of model names to schemas', () => {
+      const result = zodToPrisma({
+        User: userSchema,
+        Post: postSchema,
+        Comment: commentSchema,
+        Thread: threadSchema,
+      });
+
+      expect(result).toBe(legacyResult);
+      expect(result).toContain(
+        'user User @relation("PostToUser", fields: [userId], references: [id])'
+      );
+      expect(result).toContain(
+        'comments Comment[] @relation("ThreadToComment")'
+      );
+    });
+
+    it('should accept the models array alone', () => {
+      const result = zodToPrisma([
+        { name: 'User', schema: userSchema },
+        { name: 'Post', schema: postSchema },
+        { name: 'Comment', schema: commentSchema },
+        { name: 'Thread', schema: threadSchema },
+      ]);
+
+      expect(result).toBe(legacyResult);
+    });
+
+    it('should accept options with the simpler signature', () => {
+      const result = zodToPrisma(
+        { User: userSchema },
+        { datasource: { provider: 'sqlite' } }
+      );
+
+      expect(result).toContain('provider = "sqlite"');
+      expect(result).toContain('model User {');
+    });
+  });
+
+  describe('datasource and generators', () => {
+    const userSchema = z.object({
+      id: z.string(),
+      name: z.string(),
+      role: z.enum(['USER', 'ADMIN']).default('USER'),
+      tags: z.array(z.string()),
+      settings: z.object({ theme: z.string() }),
+    });
+    const postSchema = z.object({
+      id: z.string(),
+      title: z.string(),
+      userId: z.string(),
+      reviewerId: zodObjectId(),
+    });
+    const models = [
+      { name: 'User', schema: userSchema },
+      { name: 'Post', schema: postSchema },
+    ];
+    const modelNameToSchema = new Map<string, any>([
+      ['User', userSchema],
+      ['Post', postSchema],
+    ]);
+
+    it('should default to PostgreSQL and the prisma-client-js generator', () => {
+      const result = zodToPrisma(models, new Map(), modelNameToSchema);
+
+      expect(
+        result.startsWith(
+          [
+            '',
+            'datasource db {',
+            '  provider = "postgresql"',
+            '  url      = env("POSTGRESQL_DATABASE_URL")',
+            '}',
+            '',
+            'generator client {',
+            '  provider = "prisma-client-js"',
+            '}',
+            '',
+          ].join('\n')
+        )
+      ).toBe(true);
+      expect(result).toContain('role UserRoleEnum @default(USER)');
+      expect(result).toContain('tags String[]');
+      expect(result).toContain('settings Json');
+    });
+
+    it('should generate the configured datasource and generator blocks', () => {
+      const result = zodToPrisma(models, new Map(), modelNameToSchema, {
+        datasource: {
+          provider: 'cockroachdb',
+          url: 'DATABASE_URL',
+          directUrl: 'DIRECT_URL',
+          shadowDatabaseUrl: 'SHADOW_DATABASE_URL',
+          relationMode: 'prisma',
+        },
+        generators: [
+          {
+            name: 'client',
+            output: '../generated/client',
+            previewFeatures: ['fullTextSearch', 'metrics'],
+            binaryTargets: ['native', 'debian-openssl-3.0.x'],
+          },
+          { name: 'erd', provider: 'prisma-erd-generator' },
+        ],
+      });
+
+      expect(result).toContain(
+        [
+          'datasource db {',
+          '  provider          = "cockroachdb"',
+          '  url               = env("DATABASE_URL")',
+          '  directUrl         = env("DIRECT_URL")',
+          '  shadowDatabaseUrl = env("SHADOW_DATABASE_URL")',
+          '  relationMode      = "prisma"',
+          '}',
+          '',
+          'generator client {',
+          '  provider        = "prisma-client-js"',
+          '  output          = "../generated/client"',
+          '  previewFeatures = ["fullTextSearch", "metrics"]',
+          '  binaryTargets   = ["native", "debian-openssl-3.0.x"]',
+          '}',
+          '',
+          'generator erd {',
+          '  provider = "prisma-erd-generator"',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should store enums, lists and JSON as strings on SQLite', () => {
+      const result = zodToPrisma(models, new Map(), modelNameToSchema, {
+        datasource: { provider: 'sqlite' },
+      });
+
+      expect(result).toContain('url      = env("DATABASE_URL")');
+      expect(result).not.toContain('enum ');
+      expect(result).toContain('role String @default("USER")');
+      expect(result).toContain('tags String\n');
+      expect(result).toContain('settings String\n');
+    });
+
+    it('should store scalar lists as JSON on MySQL', () => {
+      const result = zodToPrisma(models, new Map(), modelNameToSchema, {
+        datasource: { provider: 'mysql' },
+      });
+
+      expect(result).toContain('role UserRoleEnum @default(USER)');
+      expect(result).toContain('tags Json');
+    });
+
+    it('should use ObjectId ids and foreign keys on MongoDB', () => {
+      const result = zodToPrisma(models, new Map(), modelNameToSchema, {
+        datasource: { provider: 'mongodb' },
+      });
+
+      expect(result).toContain(
+        'id String @id @default(auto()) @map("_id") @db.ObjectId'
+      );
+      expect(result).toContain('userId String @db.ObjectId');
+      expect(result).toContain('reviewerId String @db.ObjectId');
+      expect(result).toContain('tags String[]\n');
+    });
+
+    it('should map every id to _id on MongoDB', () => {
+      const mongodb = { datasource: { provider: 'mongodb' as const } };
+
+      expect(
+        zodToPrisma(
+          { Counter: z.object({ id: z.number().int(), name: z.string() }) },
+          mongodb
+        )
+      ).toContain('id Int @id @map("_id")\n');
+      expect(
+        zodToPrisma(
+          {
+            Account: z.object({
+              userId: withPrismaAttributes(z.string(), { id: true }),
+            }),
+          },
+          mongodb
+        )
+      ).toContain('userId String @id @map("_id")\n');
+      expect(() =>
+        zodToPrisma(
+          { Tag: z.object({ name: z.string() }) },
+          { ...mongodb, idStrategy: 'autoincrement' }
+        )
+      ).toThrow(
+        'The "autoincrement" id strategy of model "Tag" is not supported on MongoDB.'
+      );
+    });
+
+    it('should keep the ids of many-to-many relations on MongoDB', () => {
+      const tagSchema = z.object({
+        name: z.string(),
+        posts: z.array(z.lazy((): z.ZodTypeAny => postSchema)),
+      });
+      const postSchema = z.object({
+        title: z.string(),
+        tags: z.array(tagSchema),
+      });
+      const personSchema: z.ZodTypeAny = z.object({
+        name: z.string(),
+        friends: z.array(z.lazy(() => personSchema)),
+      });
+
+      const result = zodToPrisma(
+        { Post: postSchema, Tag: tagSchema, Person: personSchema },
+        { datasource: { provider: 'mongodb' } }
+      );
+
+      expect(result).toContain(
+        [
+          'model Post {',
+          '  id String @id @default(auto()) @map("_id") @db.ObjectId',
+          '  title String',
+          '  tagIds String[] @db.ObjectId',
+          '  tags Tag[] @relation("PostToTag", fields: [tagIds], references: [id])',
+          '}',
+        ].join('\n')
+      );
+      expect(result).toContain(
+        [
+          '  postIds String[] @db.ObjectId',
+          '  posts Post[] @relation("PostToTag", fields: [postIds], references: [id])',
+        ].join('\n')
+      );
+      expect(result).toContain(
+        [
+          '  friendsIds String[] @db.ObjectId',
+          '  friends Person[] @relation("PersonToPerson", fields: [friendsIds], references: [id])',
+          '  personsByFriendsIds String[] @db.ObjectId',
+          '  personsByFriends Person[] @relation("PersonToPerson", fields: [personsByFriendsIds], references: [id])',
+        ].join('\n')
+      );
+    });
+
+    it('should reject composite ids on MongoDB', () => {
+      const membershipSchema = z.object({
+        teamId: withPrismaAttributes(z.string(), { id: true }),
+        memberId: withPrismaAttributes(z.string(), { id: true }),
+      });
+
+      expect(() =>
+        zodToPrisma(
+          { Membership: membershipSchema },
+          { datasource: { provider: 'mongodb' } }
+        )
+      ).toThrow(
+        'Model "Membership" has a composite id, which is not supported on MongoDB.'
+      );
+    });
+  });
+
+  describe('field attributes', () => {
+    it('should honour attributes declared with withPrismaAttributes', () => {
+      const postSchema = z.object({
+        id: withPrismaAttributes(z.string(), { default: 'cuid()' }),
+        title: withPrismaAttributes(z.string(), {
+          db: 'VarChar(255)',
+        }).optional(),
+        authorEmail: withPrismaAttributes(z.string().email(), {
+          unique: false,
+          map: 'author_email',
+        }),
+        updatedAt: withPrismaAttributes(z.date(), { updatedAt: true }),
+        searchVector: withPrismaAttributes(z.string(), { ignore: true }),
+      });
+
+      const result = zodToPrisma({ Post: postSchema });
+
+      expect(result).toContain('id String @id @default(cuid())\n');
+      expect(result).toContain('title String? @db.VarChar(255)\n');
+      expect(result).toContain('authorEmail String @map("author_email")\n');
+      expect(result).toContain('updatedAt DateTime @updatedAt\n');
+      expect(result).toContain('searchVector String @ignore\n');
+    });
+
+    it('should use a field marked as id instead of the generated id', () => {
+      const counterSchema = z.object({
+        counterId: withPrismaAttributes(z.number().int(), {
+          id: true,
+          default: 'autoincrement()',
+        }),
+        name: withPrismaAttributes(z.string(), { unique: true }),
+      });
+
+      const result = zodToPrisma({ Counter: counterSchema });
+
+      expect(result).toContain(
+        'model Counter {\n  counterId Int @id @default(autoincrement())\n  name String @unique\n}'
+      );
+    });
+
+    it('should make the email heuristic optional', () => {
+      const userSchema = z.object({ email: z.string().email() });
+
+      const result = zodToPrisma({ User: userSchema }, { uniqueEmails: false });
+
+      expect(result).toContain('email String\n');
+    });
+  });
+
+  describe('ids', () => {
+    it('should keep the declared id type with a matching strategy', () => {
+      const result = zodToPrisma({
+        Counter: z.object({ id: z.number().int() }),
+        Event: z.object({ id: z.bigint() }),
+        Tag: z.object({ id: z.string() }),
+      });
+
+      expect(result).toContain('id Int @id @default(autoincrement())\n');
+      expect(result).toContain('id BigInt @id @default(autoincrement())\n');
+      expect(result).toContain('id String @id @default(uuid())\n');
+      expect(result).not.toContain('@id @unique');
+    });
+
+    it('should leave ids of other types without a default strategy', () => {
+      const result = zodToPrisma({ Item: z.object({ id: z.number() }) });
+
+      expect(result).toContain('model Item {\n  id Float @id\n}');
+    });
+
+    it('should apply the id strategy option', () => {
+      const schema = z.object({ name: z.string() });
+
+      expect(zodToPrisma({ Tag: schema }, { idStrategy: 'cuid' })).toContain(
+        'id String @id @default(cuid())\n'
+      );
+      expect(
+        zodToPrisma({ Tag: schema }, { idStrategy: 'autoincrement' })
+      ).toContain('id Int @id @default(autoincrement())\n');
+      expect(
+        zodToPrisma(
+          { Tag: schema },
+          { idStrategy: { dbgenerated: 'gen_random_uuid()' } }
+        )
+      ).toContain('id String @id @default(dbgenerated("gen_random_uuid()"))\n');
+    });
+
+    it('should reject an id strategy that does not fit the id type', () => {
+      expect(() =>
+        zodToPrisma(
+          { Counter: z.object({ id: z.number().int() }) },
+          { idStrategy: 'uuid' }
+        )
+      ).toThrow(
+        'The "uuid" id strategy does not apply to the Int id of model "Counter".'
+      );
+    });
+
+    it('should generate composite ids', () => {
+      const membershipSchema = z.object({
+        teamName: withPrismaAttributes(z.string(), { id: true }),
+        userEmail: withPrismaAttributes(z.string(), { id: true }),
+        role: z.string(),
+      });
+
+      const result = zodToPrisma({ Membership: membershipSchema });
+
+      expect(result).toContain(
+        'model Membership {\n  teamName String\n  userEmail String\n  role String\n  @@id([teamName, userEmail])\n}'
+      );
+    });
+
+    it('should relate ids that are foreign keys', () => {
+      const membershipSchema = z.object({
+        teamId: withPrismaAttributes(z.string(), { id: true }),
+        memberId: withPrismaAttributes(z.string(), { id: true }),
+        role: z.string(),
+      });
+
+      const result = zodToPrisma({
+        Team: z.object({ name: z.string() }),
+        Member: z.object({ name: z.string() }),
+        Membership: membershipSchema,
+      });
+
+      expect(result).toContain(
+        'model Membership {\n  teamId String\n  team Team @relation("MembershipToTeam", fields: [teamId], references: [id])\n  memberId String\n  member Member @relation("MembershipToMember", fields: [memberId], references: [id])\n  role String\n  @@id([teamId, memberId])\n}'
+      );
+      expect(result).toContain(
+        'memberships Membership[] @relation("MembershipToTeam")'
+      );
+      expect(result).toContain(
+        'memberships Membership[] @relation("MembershipToMember")'
+      );
+    });
+
+    it('should reject foreign keys to composite ids', () => {
+      const compSchema = z.object({
+        a: withPrismaAttributes(z.string(), { id: true }),
+        b: withPrismaAttributes(z.string(), { id: true }),
+        code: withPrismaAttributes(z.string(), { unique: true }),
+      });
+
+      expect(() =>
+        zodToPrisma({
+          Comp: compSchema,
+          Item: z.object({ compId: z.string() }),
+        })
+      ).toThrow(
+        'Foreign key "compId" of model "Item" references model "Comp", which has a composite id.'
+      );
+      expect(
+        zodToPrisma({
+          Comp: compSchema,
+          Item: z.object({
+            compId: withRelation(z.string(), {
+              model: 'Comp',
+              references: 'code',
+            }),
+          }),
+        })
+      ).toContain(
+        'comp Comp @relation("ItemToComp", fields: [compId], references: [code])'
+      );
+    });
+
+    it('should type foreign keys after the referenced id', () => {
+      const postSchema = z.object({
+        id: z.number().int(),
+        title: z.string(),
+        userId: z.string(),
+      });
+      const userSchema = z.object({
+        userId: withPrismaAttributes(z.bigint(), {
+          id: true,
+          default: 'autoincrement()',
+        }),
+      });
+
+      const result = zodToPrisma({ Post: postSchema, User: userSchema });
+
+      expect(result).toContain('userId BigInt\n');
+      expect(result).toContain(
+        'user User @relation("PostToUser", fields: [userId], references: [userId])'
+      );
+    });
   });
 
   describe('relationships', () => {
@@ -109,7 +702,7 @@ describe('zodToPrisma', () => {
 
       // User model expectations
       expect(result).toContain('model User {');
-      expect(result).toContain('profile Profile @relation("UserToProfile")');
+      expect(result).toContain('profile Profile? @relation("ProfileToUser")');
 
       // Profile model expectations
       expect(result).toContain('model Profile {');
@@ -117,6 +710,253 @@ describe('zodToPrisma', () => {
       expect(result).toContain(
         'user User @relation("ProfileToUser", fields: [userId], references: [id])'
       );
+      expect(result).not.toContain('UserToProfile');
+    });
+
+    it('should make foreign keys many-to-one with a pluralised back-relation', () => {
+      const categorySchema = z.object({ name: z.string() });
+      const postSchema = z.object({
+        title: z.string(),
+        categoryId: z.string(),
+      });
+
+      // The referenced model comes first, before its back-relation is known
+      const result = zodToPrisma({
+        Category: categorySchema,
+        Post: postSchema,
+      });
+
+      expect(result).toContain('categoryId String\n');
+      expect(result).toContain(
+        'category Category @relation("PostToCategory", fields: [categoryId], references: [id])'
+      );
+      expect(result).toContain('posts Post[] @relation("PostToCategory")');
+    });
+
+    it('should make unique foreign keys one-to-one', () => {
+      const userSchema = z.object({ name: z.string() });
+      const addressSchema = z.object({
+        city: z.string(),
+        userId: withPrismaAttributes(z.string(), { unique: true }),
+      });
+
+      const result = zodToPrisma({ User: userSchema, Address: addressSchema });
+
+      expect(result).toContain('userId String @unique');
+      expect(result).toContain('address Address? @relation("AddressToUser")');
+    });
+
+    it('should name the back-relation after the field embedding the model', () => {
+      const commentSchema = z.object({
+        text: z.string(),
+        threadId: z.string(),
+      });
+      const threadSchema = z.object({
+        title: z.string(),
+        replies: z.array(commentSchema),
+      });
+
+      const result = zodToPrisma({
+        Thread: threadSchema,
+        Comment: commentSchema,
+      });
+
+      expect(result).toContain('threadId String\n');
+      expect(result).toContain(
+        'replies Comment[] @relation("CommentToThread")'
+      );
+      expect(result).not.toContain('ThreadToComment');
+    });
+
+    it('should generate relations declared with withRelation', () => {
+      const userSchema = z.object({ email: z.string().email() });
+      const postSchema = z.object({
+        title: z.string(),
+        writer: withRelation(z.string(), {
+          model: 'User',
+          relationField: 'author',
+          inverseField: 'writtenPosts',
+          name: 'PostAuthor',
+          onDelete: 'Cascade',
+          onUpdate: 'NoAction',
+        }),
+        reviewerEmail: withRelation(z.string().email(), {
+          model: 'User',
+          references: 'email',
+          cardinality: 'one-to-one',
+          onDelete: 'SetNull',
+        }).optional(),
+      });
+
+      const result = zodToPrisma({ User: userSchema, Post: postSchema });
+
+      expect(result).toContain('writer String\n');
+      expect(result).toContain(
+        'author User @relation("PostAuthor", fields: [writer], references: [id], onDelete: Cascade, onUpdate: NoAction)'
+      );
+      expect(result).toContain('writtenPosts Post[] @relation("PostAuthor")');
+      expect(result).toContain('reviewerEmail String? @unique\n');
+      expect(result).toContain(
+        'reviewerEmailRelation User? @relation("PostReviewerEmailToUser", fields: [reviewerEmail], references: [email], onDelete: SetNull)'
+      );
+      expect(result).toContain(
+        'postByReviewerEmail Post? @relation("PostReviewerEmailToUser")'
+      );
+    });
+
+    it('should make fields referenced by withRelation unique', () => {
+      const userSchema = z.object({ handle: z.string() });
+      const postSchema = z.object({
+        authorHandle: withRelation(z.string(), {
+          model: 'User',
+          references: 'handle',
+        }),
+      });
+
+      const result = zodToPrisma({ User: userSchema, Post: postSchema });
+
+      expect(result).toContain('handle String @unique\n');
+      expect(result).toContain(
+        'authorHandleRelation User @relation("PostToUser", fields: [authorHandle], references: [handle])'
+      );
+      expect(() =>
+        zodToPrisma({
+          User: z.object({
+            handle: withPrismaAttributes(z.string(), { unique: false }),
+          }),
+          Post: postSchema,
+        })
+      ).toThrow(
+        'Field "authorHandle" references field "handle" of model "User", which is not unique.'
+      );
+      expect(() =>
+        zodToPrisma({ User: z.object({ name: z.string() }), Post: postSchema })
+      ).toThrow(
+        'Field "authorHandle" references unknown field "handle" of model "User".'
+      );
+    });
+
+    it('should tell apart several relations to the same model', () => {
+      const userSchema = z.object({ name: z.string() });
+      const messageSchema = z.object({
+        body: z.string(),
+        senderId: withRelation(z.string(), { model: 'User' }),
+        recipientId: withRelation(z.string(), {
+          model: 'User',
+          inverseField: 'receivedMessages',
+        }),
+      });
+
+      const result = zodToPrisma({ User: userSchema, Message: messageSchema });
+
+      expect(result).toContain(
+        'sender User @relation("MessageSenderToUser", fields: [senderId], references: [id])'
+      );
+      expect(result).toContain(
+        'recipient User @relation("MessageRecipientToUser", fields: [recipientId], references: [id])'
+      );
+      expect(result).toContain(
+        'messagesBySender Message[] @relation("MessageSenderToUser")'
+      );
+      expect(result).toContain(
+        'receivedMessages Message[] @relation("MessageRecipientToUser")'
+      );
+    });
+
+    it('should handle self-relations', () => {
+      const employeeSchema = z.object({
+        name: z.string(),
+        managerId: withRelation(z.string(), { model: 'Employee' }).optional(),
+      });
+
+      const result = zodToPrisma({ Employee: employeeSchema });
+
+      expect(result).toContain(
+        'manager Employee? @relation("EmployeeToEmployee", fields: [managerId], references: [id])'
+      );
+      expect(result).toContain(
+        'employeesByManager Employee[] @relation("EmployeeToEmployee")'
+      );
+    });
+
+    it('should resolve recursive z.lazy schemas', () => {
+      interface ICategory {
+        name: string;
+        parentId?: string;
+        children: ICategory[];
+      }
+      const categorySchema: z.ZodType<ICategory> = z.object({
+        name: z.string(),
+        parentId: withRelation(z.string(), { model: 'Category' }).optional(),
+        children: z.lazy(() => z.array(categorySchema)),
+      });
+      interface INode {
+        label: string;
+        children: INode[];
+      }
+      const nodeSchema: z.ZodType<INode> = z.object({
+        label: z.string(),
+        children: z.array(z.lazy(() => nodeSchema)),
+      });
+      interface ITopic {
+        parentId?: string;
+        parent?: ITopic;
+        children: ITopic[];
+      }
+      const topicSchema: z.ZodType<ITopic> = z.object({
+        parentId: withRelation(z.string().optional(), { model: 'Topic' }),
+        parent: z.lazy(() => topicSchema).optional(),
+        children: z.array(z.lazy(() => topicSchema)),
+      });
+
+      const result = zodToPrisma({
+        Category: categorySchema,
+        Node: nodeSchema,
+        Topic: topicSchema,
+      });
+
+      expect(result).toContain(
+        'parent Category? @relation("CategoryToCategory", fields: [parentId], references: [id])'
+      );
+      expect(result).toContain(
+        'children Category[] @relation("CategoryToCategory")'
+      );
+      expect(result).toContain('children Node[] @relation("NodeToNode")');
+      expect(result).toContain(
+        'nodesByChildren Node[] @relation("NodeToNode")'
+      );
+      // The model's own `parent` field holds the relation, and `children` its back-relation
+      expect(result).toContain(
+        'model Topic {\n  id String @id @default(uuid())\n  parentId String?\n  parent Topic? @relation("TopicToTopic", fields: [parentId], references: [id])\n  children Topic[] @relation("TopicToTopic")\n}'
+      );
+    });
+
+    it('should give each relation between two models its own name', () => {
+      const tagShape: z.ZodRawShape = { name: z.string() };
+      const tagSchema = z.object(tagShape);
+      const postSchema = z.object({
+        tags: z.array(tagSchema),
+        featuredTagId: withRelation(z.string(), { model: 'Tag' }),
+      });
+      tagShape.posts = z.array(postSchema);
+
+      const result = zodToPrisma({ Post: postSchema, Tag: tagSchema });
+
+      expect(result).toContain('tags Tag[] @relation("PostToTag")');
+      expect(result).toContain('posts Post[] @relation("PostToTag")');
+      expect(result).toContain(
+        'featuredTag Tag @relation("PostFeaturedTagToTag", fields: [featuredTagId], references: [id])'
+      );
+    });
+
+    it('should reject relations to unknown models', () => {
+      const postSchema = z.object({
+        authorId: withRelation(z.string(), { model: 'Author' }),
+      });
+
+      expect(() => zodToPrisma({ Post: postSchema })).toThrow(
+        'Field "authorId" declares a relation to unknown model "Author".'
+      );
     });
 
     it('should handle many-to-many relationships correctly', () => {
@@ -158,6 +998,127 @@ describe('zodToPrisma', () => {
       expect(result).toContain('model Category {');
       expect(result).toContain('categories Post[] @relation("PostToCategory")');
     });
+
+    it('should collapse lists on both sides into one many-to-many relation', () => {
+      // Zod objects keep a reference to their shape, so it can be completed afterwards
+      const tagShape: z.ZodRawShape = { name: z.string() };
+      const tagSchema = z.object(tagShape);
+      const postSchema = z.object({
+        title: z.string(),
+        tags: z.array(tagSchema),
+      });
+      tagShape.posts = z.array(postSchema);
+
+      const result = zodToPrisma({ Tag: tagSchema, Post: postSchema });
+
+      expect(result).toContain('posts Post[] @relation("PostToTag")');
+      expect(result).toContain('tags Tag[] @relation("PostToTag")');
+      expect(result).not.toContain('TagToPost');
+      expect(result.match(/@relation/g)).toHaveLength(2);
+    });
+
+    it('should generate explicit join models', () => {
+      const categorySchema = z.object({ name: z.string() });
+      const articleSchema = z.object({
+        title: z.string(),
+        categories: withPrismaJoinModel(z.array(categorySchema), {
+          name: 'ArticleCategory',
+          schema: z.object({ assignedAt: z.date().default(() => new Date()) }),
+        }),
+      });
+
+      const result = zodToPrisma({
+        Article: articleSchema,
+        Category: categorySchema,
+      });
+
+      expect(result).toContain(
+        'categories ArticleCategory[] @relation("ArticleCategoryToArticle")'
+      );
+      expect(result).toContain(
+        'articleCategories ArticleCategory[] @relation("ArticleCategoryToCategory")'
+      );
+      expect(result).toContain(
+        [
+          'model ArticleCategory {',
+          '  articleId String',
+          '  article Article @relation("ArticleCategoryToArticle", fields: [articleId], references: [id])',
+          '  categoryId String',
+          '  category Category @relation("ArticleCategoryToCategory", fields: [categoryId], references: [id])',
+          '  assignedAt DateTime @default(now())',
+          '  @@id([articleId, categoryId])',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should use the join model on both sides when either declares it', () => {
+      const studentShape: z.ZodRawShape = { name: z.string() };
+      const studentSchema = z.object(studentShape);
+      const courseSchema = z.object({
+        title: z.string(),
+        students: z.array(studentSchema),
+      });
+      studentShape.courses = withPrismaJoinModel(z.array(courseSchema), {
+        name: 'Enrollment',
+      });
+
+      const result = zodToPrisma({
+        Course: courseSchema,
+        Student: studentSchema,
+      });
+
+      expect(result).toContain(
+        'students Enrollment[] @relation("EnrollmentToCourse")'
+      );
+      expect(result).toContain(
+        'courses Enrollment[] @relation("EnrollmentToStudent")'
+      );
+      expect(result).toContain('@@id([courseId, studentId])');
+      expect(result.match(/model Enrollment/g)).toHaveLength(1);
+    });
+
+    it('should tell apart both sides of a self-relation join model', () => {
+      interface IPerson {
+        name: string;
+        friends: IPerson[];
+      }
+      const personSchema: z.ZodType<IPerson> = z.object({
+        name: z.string(),
+        friends: withPrismaJoinModel(z.array(z.lazy(() => personSchema)), {
+          name: 'Friendship',
+        }),
+      });
+
+      const result = zodToPrisma({ Person: personSchema });
+
+      expect(result).toContain(
+        'friends Friendship[] @relation("FriendshipToPerson")\n  friendshipsByOtherPerson Friendship[] @relation("FriendshipOtherPersonToPerson")'
+      );
+      expect(result).toContain(
+        'model Friendship {\n  personId String\n  person Person @relation("FriendshipToPerson", fields: [personId], references: [id])\n  otherPersonId String\n  otherPerson Person @relation("FriendshipOtherPersonToPerson", fields: [otherPersonId], references: [id])\n  @@id([personId, otherPersonId])\n}'
+      );
+    });
+  });
+
+  it('should generate models and enums on their own', () => {
+    const postSchema = z.object({ status: z.enum(['draft', 'published']) });
+    const lookupMaps = [
+      new Map([[postSchema, 'Post']]),
+      new Map(),
+      new Map([['Post', postSchema]]),
+    ] as const;
+
+    expect(generatePrismaEnums()).toBe('');
+    expect(generatePrismaModel('Post', postSchema, ...lookupMaps)).toContain(
+      'status PostStatusEnum'
+    );
+
+    const context = createPrismaGenerationContext();
+    generatePrismaModel('Post', postSchema, ...lookupMaps, context);
+    expect(generatePrismaEnums(context)).toBe(
+      'enum PostStatusEnum {\n  draft\n  published\n}'
+    );
   });
 
   it('should throw an error for invalid schemas', () => {
@@ -213,6 +1174,95 @@ describe('zodToPrisma', () => {
     expect(result).toContain('price Float @default(100)');
   });
 
+  it('should distinguish optional, nullable and defaulted fields', () => {
+    const userSchema = z.object({
+      id: z.string().uuid(),
+      nickname: z.string().optional(),
+      deletedAt: z.date().nullable(),
+      bio: z.string().nullish(),
+      parentId: z.string().nullable().default(null),
+      status: z.string().optional().default('active'),
+      theme: z.string().nullable().default('light'),
+      tags: z.array(z.string()).optional(),
+    });
+
+    const result = zodToPrisma(
+      [{ name: 'User', schema: userSchema }],
+      new Map(),
+      new Map()
+    );
+
+    expect(result).toContain('nickname String?\n');
+    expect(result).toContain('deletedAt DateTime?\n');
+    expect(result).toContain('bio String?\n');
+    expect(result).toContain('parentId String?\n');
+    expect(result).toContain('status String @default("active")');
+    expect(result).toContain('theme String? @default("light")');
+    expect(result).toContain('tags String[]\n');
+  });
+
+  it('should make the relation optional when its foreign key is', () => {
+    const userSchema = z.object({
+      id: z.string().uuid(),
+      name: z.string(),
+    });
+    const postSchema = z.object({
+      id: z.string().uuid(),
+      userId: z.string().nullable(),
+    });
+
+    const result = zodToPrisma(
+      [
+        { name: 'User', schema: userSchema },
+        { name: 'Post', schema: postSchema },
+      ],
+      new Map(),
+      new Map<string, any>([
+        ['User', userSchema],
+        ['Post', postSchema],
+      ])
+    );
+
+    expect(result).toContain('userId String?\n');
+    expect(result).toContain(
+      'user User? @relation("PostToUser", fields: [userId], references: [id])'
+    );
+  });
+
+  it('should treat zodObjectId fields as foreign keys to the referenced model', () => {
+    const userSchema = z.object({ id: z.string(), name: z.string() });
+    const postSchema = z.object({
+      id: z.string(),
+      authorId: zodObjectId('User'),
+      editor: zodObjectId('User').optional(),
+      tagIds: z.array(zodObjectId('Tag')),
+      externalId: zodObjectId(),
+    });
+
+    const result = zodToPrisma(
+      [
+        { name: 'User', schema: userSchema },
+        { name: 'Post', schema: postSchema },
+      ],
+      new Map(),
+      new Map<string, any>([
+        ['User', userSchema],
+        ['Post', postSchema],
+      ])
+    );
+
+    expect(result).toContain('authorId String\n');
+    expect(result).toContain(
+      'author User @relation("PostAuthorToUser", fields: [authorId], references: [id])'
+    );
+    expect(result).toContain('editor String?\n');
+    expect(result).toContain(
+      'editorRelation User? @relation("PostEditorToUser", fields: [editor], references: [id])'
+    );
+    expect(result).toContain('tagIds String[]');
+    expect(result).toContain('externalId String\n');
+  });
+
   it('should handle ZodEffects that modify the schema', () => {
     const modifiedSchema = z.object({
       id: z.string().uuid(),
@@ -1,2 +1,6 @@
+export * from './mongooseRepository';
+export * from './mongooseToZod';
+export * from './objectId';
+export * from './relations';
 export * from './zodToMongoose';
 export * from './zodToPrisma';
@@ -0,0 +1,149 @@
+// mongooseRepository.ts
+import mongoose, { FilterQuery, Model } from 'mongoose';
+import { z } from 'zod';
+import { flattenObjectIds } from './utils';
+import {
+  createMongooseModel,
+  ICreateMongooseModelOptions,
+  InferMongooseDocType,
+  MongooseZodObject,
+  zodToObject,
+} from './zodToMongoose';
+
+/**
+ * A document read through a repository: the parsed Zod output plus its id as a string.
+ */
+export type MongooseRepositoryEntity<TSchema extends MongooseZodObject> =
+  z.infer<TSchema> & { id: string };
+
+/**
+ * Typed data access for a model whose writes are validated with its Zod schema.
+ */
+export interface IMongooseRepository<
+  TSchema extends MongooseZodObject,
+  TDoc = z.infer<TSchema>
+> {
+  /**
+   * The underlying Mongoose model, for queries the repository does not cover.
+   */
+  model: Model<TDoc>;
+  /**
+   * Validates the data with the Zod schema (applying defaults) and inserts it.
+   */
+  create(data: z.input<TSchema>): Promise<MongooseRepositoryEntity<TSchema>>;
+  /**
+   * Validates the given fields and updates them. Returns null if no document has this id.
+   */
+  updateById(
+    id: string,
+    data: Partial<z.input<TSchema>>
+  ): Promise<MongooseRepositoryEntity<TSchema> | null>;
+  /**
+   * Returns the document with this id, or null if there is none.
+   */
+  findById(id: string): Promise<MongooseRepositoryEntity<TSchema> | null>;
+  /**
+   * Returns the documents matching the filter (all documents by default).
+   */
+  find(
+    filter?: FilterQuery<TDoc>
+  ): Promise<MongooseRepositoryEntity<TSchema>[]>;
+  /**
+   * Deletes the document with this id. Returns whether a document was deleted.
+   */
+  deleteById(id: string): Promise<boolean>;
+}
+
+/**
+ * Creates a model with createMongooseModel and wraps it in a repository validating every write
+ * with the Zod schema, including `updateOne` and `findOneAndUpdate` queries run on the model.
+ * Reads are lean and parsed back through the schema, with `_id` returned as `id`.
+ *
+ * @param modelName - The name of the Mongoose model.
+ * @param zodSchema - The Zod schema of the documents.
+ * @param relationshipMappings - Optional mappings of field names to referenced model names.
+ * @param options - Options passed to createMongooseModel.
+ * @returns The repository.
+ */
+export function createMongooseRepository<
+  TSchema extends MongooseZodObject,
+  TRefs extends Record<string, string> = {},
+  TOptions extends ICreateMongooseModelOptions = {}
+>(
+  modelName: string,
+  zodSchema: TSchema,
+  relationshipMappings?: TRefs,
+  options?: TOptions
+): IMongooseRepository<
+  TSchema,
+  InferMongooseDocType<TSchema, TRefs, TOptions>
+> {
+  type TEntity = MongooseRepositoryEntity<TSchema>;
+
+  const model = createMongooseModel(
+    modelName,
+    zodSchema,
+    relationshipMappings,
+    {
+      ...options,
+      validateWithZod: true,
+      validateUpdatesWithZod: true,
+    } as TOptions
+  );
+
+  // Stored documents carry ObjectIds, `__v` and timestamps the schema does not declare
+  const toEntity = (raw: unknown): TEntity => {
+    const { _id, ...data } = flattenObjectIds(raw) as Record<string, unknown>;
+    return {
+      ...zodToObject(zodSchema, data, { unknownKeys: 'strip' }),
+      id: _id as string,
+    };
+  };
+
+  return {
+    model,
+
+    async create(data) {
+      const doc = await model.create(zodToObject(zodSchema, data));
+      return toEntity(doc.toObject({ flattenMaps: true }));
+    },
+
+    async updateById(id, data) {
+      if (!mongoose.isObjectIdOrHexString(id)) {
+        return null;
+      }
+
+      const raw = await model
+        .findByIdAndUpdate(
+          id,
+          { $set: zodToObject(zodSchema, data, { partial: true }) },
+          { new: true, runValidators: true }
+        )
+        .lean();
+      return raw ? toEntity(raw) : null;
+    },
+
+    async findById(id) {
+      if (!mongoose.isObjectIdOrHexString(id)) {
+        return null;
+      }
+
+      const raw = await model.findById(id).lean();
+      return raw ? toEntity(raw) : null;
+    },
+
+    async find(filter = {}) {
+      const docs = await model.find(filter).lean();
+      return docs.map(toEntity);
+    },
+
+    async deleteById(id) {
+      if (!mongoose.isObjectIdOrHexString(id)) {
+        return false;
+      }
+
+      const result = await model.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    },
+  };
+}
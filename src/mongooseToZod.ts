@@ -0,0 +1,530 @@
+// mongooseToZod.ts
+import mongoose, { Schema, SchemaType } from 'mongoose';
+import { z, ZodObject, ZodRawShape, ZodTypeAny } from 'zod';
+import { zodObjectId } from './objectId';
+
+export interface IMongooseToZodOptions {
+  /**
+   * Name of the constant exported by the generated source. Defaults to `schema`.
+   */
+  exportName?: string;
+}
+
+export interface IMongooseToZodResult {
+  /**
+   * The runtime Zod schema.
+   */
+  zodSchema: ZodObject<any>;
+  /**
+   * TypeScript source declaring the same Zod schema.
+   */
+  source: string;
+  /**
+   * ObjectId references found in the schema, keyed by field path, ready to be passed to zodToMongoose.
+   */
+  relationshipMappings: Record<string, string>;
+}
+
+/**
+ * A Zod schema together with the source code producing it.
+ */
+interface IZodConversion {
+  zod: ZodTypeAny;
+  code: string;
+}
+
+/**
+ * A group of Mongoose paths sharing the same prefix (`address.street`, `address.city`, ...).
+ */
+interface IMongoosePathTree {
+  [key: string]: SchemaType | IMongoosePathTree;
+}
+
+/**
+ * Converts a Mongoose schema to a Zod schema.
+ * Maps types, `required`, `enum`, `min`/`max`, `minlength`/`maxlength`, `match`, `default`,
+ * subdocuments, arrays and ObjectId references. `_id`, the version key and timestamps are skipped.
+ * @param schema - The Mongoose schema to convert.
+ * @param options - Optional settings for the generated source.
+ * @returns The runtime Zod schema, its TypeScript source and the references found.
+ */
+export function mongooseToZod(
+  schema: Schema,
+  options?: IMongooseToZodOptions
+): IMongooseToZodResult {
+  const relationshipMappings: Record<string, string> = {};
+  const { zod, code } = convertSchema(schema, '', relationshipMappings, '');
+  const exportName = options?.exportName ?? 'schema';
+
+  const imports = [`import { z } from 'zod';`];
+  if (/\bzodObjectId\(/.test(code)) {
+    imports.push(`import { zodObjectId } from 'zod-to-schema';`);
+  }
+  const header = imports.join('\n');
+  const source = `${header}\n\nexport const ${exportName} = ${code};\n`;
+
+  return {
+    zodSchema: zod as ZodObject<any>,
+    source,
+    relationshipMappings,
+  };
+}
+
+/**
+ * Converts the paths of a Mongoose schema (or subdocument schema) to a Zod object.
+ * @param schema - The Mongoose schema to convert.
+ * @param pathPrefix - Dotted path of the schema within the root schema.
+ * @param relationshipMappings - Collects the ObjectId references found.
+ * @param indent - Indentation of the generated object.
+ * @returns The Zod object and its source code.
+ */
+function convertSchema(
+  schema: Schema,
+  pathPrefix: string,
+  relationshipMappings: Record<string, string>,
+  indent: string
+): IZodConversion {
+  const skippedPaths = getSkippedPaths(schema);
+  const tree: IMongoosePathTree = {};
+
+  Object.entries(schema.paths).forEach(([path, schemaType]) => {
+    // Map values are described by their parent Map path
+    if (skippedPaths.has(path) || path.includes('.$*')) {
+      return;
+    }
+
+    const segments = path.split('.');
+    let node = tree;
+    segments.slice(0, -1).forEach((segment) => {
+      node[segment] = (node[segment] as IMongoosePathTree) ?? {};
+      node = node[segment] as IMongoosePathTree;
+    });
+    node[segments[segments.length - 1]] = schemaType;
+  });
+
+  return convertPathTree(
+    tree,
+    schema,
+    pathPrefix,
+    relationshipMappings,
+    indent
+  );
+}
+
+/**
+ * Converts a tree of Mongoose paths to a Zod object.
+ * @param tree - The paths to convert, grouped by prefix.
+ * @param schema - The Mongoose schema owning the paths.
+ * @param pathPrefix - Dotted path of the tree within the root schema.
+ * @param relationshipMappings - Collects the ObjectId references found.
+ * @param indent - Indentation of the generated object.
+ * @returns The Zod object and its source code.
+ */
+function convertPathTree(
+  tree: IMongoosePathTree,
+  schema: Schema,
+  pathPrefix: string,
+  relationshipMappings: Record<string, string>,
+  indent: string
+): IZodConversion {
+  const shape: Record<string, ZodTypeAny> = {};
+  const lines: string[] = [];
+  const fieldIndent = `${indent}  `;
+
+  Object.entries(tree).forEach(([key, node]) => {
+    const path = `${pathPrefix}${key}`;
+    const field =
+      node instanceof SchemaType
+        ? convertField(node, schema, path, relationshipMappings, fieldIndent)
+        : convertNestedPathTree(
+            node,
+            schema,
+            `${path}.`,
+            relationshipMappings,
+            fieldIndent
+          );
+
+    shape[key] = field.zod;
+    lines.push(`${fieldIndent}${formatKey(key)}: ${field.code},`);
+  });
+
+  return {
+    zod: z.object(shape),
+    code: lines.length
+      ? `z.object({\n${lines.join('\n')}\n${indent}})`
+      : 'z.object({})',
+  };
+}
+
+/**
+ * Converts a nested path group. Mongoose never requires nested paths and leaves empty ones out
+ * of documents, so the group is optional, or defaults to `{}` (filling in its children's
+ * defaults) when none of its children is required.
+ */
+function convertNestedPathTree(
+  tree: IMongoosePathTree,
+  schema: Schema,
+  pathPrefix: string,
+  relationshipMappings: Record<string, string>,
+  indent: string
+): IZodConversion {
+  const { zod, code } = convertPathTree(
+    tree,
+    schema,
+    pathPrefix,
+    relationshipMappings,
+    indent
+  );
+  const hasRequiredChild = Object.values(
+    (zod as ZodObject<ZodRawShape>).shape
+  ).some((field) => !field.isOptional());
+  return hasRequiredChild
+    ? { zod: zod.optional(), code: `${code}.optional()` }
+    : { zod: zod.default({}), code: `${code}.default({})` };
+}
+
+/**
+ * Converts a Mongoose path to a Zod field, applying `required` and `default`.
+ * @param schemaType - The Mongoose SchemaType of the path.
+ * @param schema - The Mongoose schema owning the path.
+ * @param path - Dotted path of the field within the root schema.
+ * @param relationshipMappings - Collects the ObjectId references found.
+ * @param indent - Indentation of the field.
+ * @returns The Zod field and its source code.
+ */
+function convertField(
+  schemaType: SchemaType,
+  schema: Schema,
+  path: string,
+  relationshipMappings: Record<string, string>,
+  indent: string
+): IZodConversion {
+  const field = convertSchemaType(
+    schemaType,
+    schema,
+    path,
+    relationshipMappings,
+    indent
+  );
+  let { zod, code } = field;
+
+  const required = optionValue(schemaType.options.required);
+  if (required !== true) {
+    zod = zod.optional();
+    code += '.optional()';
+  }
+
+  const defaultValue = schemaType.options.default;
+  if (defaultValue !== undefined) {
+    if (defaultValue === Date.now) {
+      zod = zod.default(() => new Date());
+      code += '.default(() => new Date())';
+    } else {
+      zod = zod.default(defaultValue);
+      code += `.default(${formatValue(defaultValue)})`;
+    }
+  }
+
+  return { zod, code };
+}
+
+/**
+ * Converts a Mongoose SchemaType to a Zod type with its validation checks.
+ * @param schemaType - The Mongoose SchemaType to convert.
+ * @param schema - The Mongoose schema owning the SchemaType.
+ * @param path - Dotted path of the field within the root schema.
+ * @param relationshipMappings - Collects the ObjectId references found.
+ * @param indent - Indentation of the field.
+ * @returns The Zod type and its source code.
+ */
+function convertSchemaType(
+  schemaType: SchemaType,
+  schema: Schema,
+  path: string,
+  relationshipMappings: Record<string, string>,
+  indent: string
+): IZodConversion {
+  const options = schemaType.options;
+  const typedSchemaType = schemaType as SchemaType & {
+    caster?: SchemaType;
+    schema?: Schema;
+    $isMongooseDocumentArray?: boolean;
+  };
+
+  switch (schemaType.instance) {
+    case 'String': {
+      const enumValues = getEnumValues(options.enum);
+      if (enumValues) {
+        return {
+          zod: z.enum(enumValues as [string, ...string[]]),
+          code: `z.enum(${formatValue(enumValues)})`,
+        };
+      }
+
+      let zod = z.string();
+      let code = 'z.string()';
+      const minLength = optionValue(options.minlength);
+      if (minLength !== undefined) {
+        const message = optionMessage(options.minlength);
+        zod = zod.min(minLength, message);
+        code += `.min(${formatCheckArguments(minLength, message)})`;
+      }
+      const maxLength = optionValue(options.maxlength);
+      if (maxLength !== undefined) {
+        const message = optionMessage(options.maxlength);
+        zod = zod.max(maxLength, message);
+        code += `.max(${formatCheckArguments(maxLength, message)})`;
+      }
+      const match = optionValue(options.match);
+      if (match instanceof RegExp) {
+        const message = optionMessage(options.match);
+        zod = zod.regex(match, message);
+        code += `.regex(${formatCheckArguments(match, message)})`;
+      }
+      if (options.trim) {
+        zod = zod.trim();
+        code += '.trim()';
+      }
+      if (options.lowercase) {
+        zod = zod.toLowerCase();
+        code += '.toLowerCase()';
+      }
+      if (options.uppercase) {
+        zod = zod.toUpperCase();
+        code += '.toUpperCase()';
+      }
+      return { zod, code };
+    }
+
+    case 'Number': {
+      let zod = z.number();
+      let code = 'z.number()';
+      const min = optionValue(options.min);
+      if (min !== undefined) {
+        const message = optionMessage(options.min);
+        zod = zod.min(min, message);
+        code += `.min(${formatCheckArguments(min, message)})`;
+      }
+      const max = optionValue(options.max);
+      if (max !== undefined) {
+        const message = optionMessage(options.max);
+        zod = zod.max(max, message);
+        code += `.max(${formatCheckArguments(max, message)})`;
+      }
+      return { zod, code };
+    }
+
+    case 'Date': {
+      let zod = z.date();
+      let code = 'z.date()';
+      const min = optionValue(options.min);
+      if (min !== undefined) {
+        const message = optionMessage(options.min);
+        zod = zod.min(new Date(min), message);
+        code += `.min(${formatCheckArguments(new Date(min), message)})`;
+      }
+      const max = optionValue(options.max);
+      if (max !== undefined) {
+        const message = optionMessage(options.max);
+        zod = zod.max(new Date(max), message);
+        code += `.max(${formatCheckArguments(new Date(max), message)})`;
+      }
+      return { zod, code };
+    }
+
+    case 'Boolean':
+      return { zod: z.boolean(), code: 'z.boolean()' };
+
+    case 'BigInt':
+      return { zod: z.bigint(), code: 'z.bigint()' };
+
+    case 'ObjectId':
+      if (options.ref) {
+        relationshipMappings[path] = String(options.ref);
+        return {
+          zod: zodObjectId(String(options.ref)),
+          code: `zodObjectId(${formatValue(String(options.ref))})`,
+        };
+      }
+      return { zod: zodObjectId(), code: 'zodObjectId()' };
+
+    case 'Embedded':
+      return convertSchema(
+        typedSchemaType.schema as Schema,
+        `${path}.`,
+        relationshipMappings,
+        indent
+      );
+
+    case 'Array': {
+      if (typedSchemaType.$isMongooseDocumentArray) {
+        const element = convertSchema(
+          typedSchemaType.schema as Schema,
+          `${path}.`,
+          relationshipMappings,
+          indent
+        );
+        return {
+          zod: z.array(element.zod),
+          code: `z.array(${element.code})`,
+        };
+      }
+
+      const caster = typedSchemaType.caster;
+      if (!caster) {
+        return { zod: z.array(z.any()), code: 'z.array(z.any())' };
+      }
+      const element = convertSchemaType(
+        caster,
+        schema,
+        path,
+        relationshipMappings,
+        indent
+      );
+      if (caster.instance === 'ObjectId' && options.ref) {
+        relationshipMappings[path] = String(options.ref);
+      }
+      return {
+        zod: z.array(element.zod),
+        code: `z.array(${element.code})`,
+      };
+    }
+
+    case 'Map': {
+      const valueSchemaType = schema.paths[`${path}.$*`];
+      const value = valueSchemaType
+        ? convertSchemaType(
+            valueSchemaType,
+            schema,
+            `${path}.$*`,
+            relationshipMappings,
+            indent
+          )
+        : { zod: z.any(), code: 'z.any()' };
+      return {
+        zod: z.record(z.string(), value.zod),
+        code: `z.record(z.string(), ${value.code})`,
+      };
+    }
+
+    default:
+      // Mixed and types without a Zod equivalent accept any value
+      return { zod: z.any(), code: 'z.any()' };
+  }
+}
+
+/**
+ * Lists the paths managed by Mongoose itself: `_id`, the version key and timestamps.
+ * @param schema - The Mongoose schema.
+ * @returns The paths to leave out of the Zod schema.
+ */
+function getSkippedPaths(schema: Schema): Set<string> {
+  const skippedPaths = new Set(['_id']);
+
+  const versionKey = schema.get('versionKey');
+  if (typeof versionKey === 'string') {
+    skippedPaths.add(versionKey);
+  }
+
+  const timestamps = schema.get('timestamps');
+  if (timestamps) {
+    const createdAt =
+      typeof timestamps === 'object' ? timestamps.createdAt : true;
+    const updatedAt =
+      typeof timestamps === 'object' ? timestamps.updatedAt : true;
+    if (createdAt !== false) {
+      skippedPaths.add(typeof createdAt === 'string' ? createdAt : 'createdAt');
+    }
+    if (updatedAt !== false) {
+      skippedPaths.add(typeof updatedAt === 'string' ? updatedAt : 'updatedAt');
+    }
+  }
+
+  return skippedPaths;
+}
+
+/**
+ * Reads a Mongoose option that may be given with a custom message (`[value, message]`).
+ * @param option - The option as declared on the path.
+ * @returns The option's value.
+ */
+function optionValue(option: any): any {
+  return Array.isArray(option) ? option[0] : option;
+}
+
+/**
+ * Reads the message of an option declared as `[value, message]`.
+ * @param option - The option as declared on the path.
+ * @returns The message, if any.
+ */
+function optionMessage(option: any): string | undefined {
+  return Array.isArray(option) && typeof option[1] === 'string'
+    ? option[1]
+    : undefined;
+}
+
+/**
+ * Formats the arguments of a Zod check: its value, then its message if any.
+ */
+function formatCheckArguments(value: unknown, message?: string): string {
+  const formattedValue =
+    value instanceof RegExp ? value.toString() : formatValue(value);
+  return message === undefined
+    ? formattedValue
+    : `${formattedValue}, ${formatValue(message)}`;
+}
+
+/**
+ * Reads the string values of a Mongoose `enum` option (`['a', 'b']` or `{ values, message }`).
+ * @param option - The enum option as declared on the path.
+ * @returns The enum values, if any.
+ */
+function getEnumValues(option: any): string[] | undefined {
+  const values = Array.isArray(option) ? option : option?.values;
+  const stringValues = Array.isArray(values)
+    ? values.filter((value): value is string => typeof value === 'string')
+    : [];
+  return stringValues.length ? stringValues : undefined;
+}
+
+/**
+ * Formats an object key, quoting it when it is not a valid identifier.
+ * @param key - The key to format.
+ * @returns The key as TypeScript source.
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+/**
+ * Formats a default or enum value as TypeScript source.
+ * @param value - The value to format.
+ * @returns The value as TypeScript source.
+ */
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return `new Date('${value.toISOString()}')`;
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return `'${value.toHexString()}'`;
+  }
+  if (typeof value === 'function') {
+    return value.toString();
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(
+      ([key, entryValue]) => `${formatKey(key)}: ${formatValue(entryValue)}`
+    );
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  return String(value);
+}
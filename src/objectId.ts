@@ -0,0 +1,64 @@
+// objectId.ts
+import { Types } from 'mongoose';
+import { z, ZodEffects, ZodEffectsDef, ZodString, ZodTypeAny } from 'zod';
+
+const OBJECT_ID_REGEX = /^[0-9a-f]{24}$/i;
+
+/**
+ * A Zod schema for MongoDB ObjectIds: accepts a 24-character hex string or a `Types.ObjectId`
+ * and outputs the hex string.
+ */
+export type ZodObjectId = ZodEffects<
+  ZodString,
+  string,
+  string | Types.ObjectId
+>;
+
+/**
+ * Options stored on the schema by zodObjectId.
+ */
+interface IZodObjectIdOptions {
+  ref?: string;
+}
+
+/**
+ * Creates a Zod schema for ObjectId values, optionally referencing another model.
+ * zodToMongoose maps it to `Schema.Types.ObjectId` (with `ref`), and zodToPrisma to a
+ * foreign key of the referenced model.
+ *
+ * @param ref - Name of the referenced model.
+ * @returns The ObjectId schema.
+ */
+export function zodObjectId(ref?: string): ZodObjectId {
+  const schema = z.preprocess(
+    (value) => (value instanceof Types.ObjectId ? value.toHexString() : value),
+    z.string().regex(OBJECT_ID_REGEX, 'Invalid ObjectId')
+  ) as ZodObjectId;
+
+  // Stored on the definition so the options survive `.describe()` and similar copies
+  const objectIdOptions: IZodObjectIdOptions = { ref };
+  return new ZodEffects({
+    ...schema._def,
+    objectIdOptions,
+  } as ZodEffectsDef<ZodString>) as ZodObjectId;
+}
+
+function getZodObjectIdOptions(
+  schema: ZodTypeAny
+): IZodObjectIdOptions | undefined {
+  return schema._def.objectIdOptions;
+}
+
+/**
+ * Whether the schema was created with zodObjectId.
+ */
+export function isZodObjectId(schema: ZodTypeAny): schema is ZodObjectId {
+  return !!getZodObjectIdOptions(schema);
+}
+
+/**
+ * The model referenced by a zodObjectId schema, if any.
+ */
+export function getZodObjectIdRef(schema: ZodTypeAny): string | undefined {
+  return getZodObjectIdOptions(schema)?.ref;
+}
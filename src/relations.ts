@@ -0,0 +1,89 @@
+// relations.ts
+import { ZodTypeAny } from 'zod';
+import { extendZodDef } from './utils';
+
+/**
+ * What the database does to referencing records when the referenced record is deleted or its
+ * key is updated.
+ */
+export type ReferentialAction =
+  | 'Cascade'
+  | 'Restrict'
+  | 'NoAction'
+  | 'SetNull'
+  | 'SetDefault';
+
+/**
+ * A relation declared on a foreign key field with withRelation.
+ */
+export interface IRelationOptions {
+  /**
+   * Name of the referenced model.
+   */
+  model: string;
+  /**
+   * `many-to-one` (the default) or `one-to-one`, which makes the foreign key unique.
+   */
+  cardinality?: 'many-to-one' | 'one-to-one';
+  /**
+   * Field of the referenced model the key holds. Defaults to `id`; zodToPrisma makes any other
+   * field unique.
+   */
+  references?: string;
+  /**
+   * Name of the field holding the related record. Defaults to the key without its `Id` suffix
+   * (`authorId` -> `author`), or the key followed by `Relation`.
+   */
+  relationField?: string;
+  /**
+   * Name of the back-relation field on the referenced model.
+   */
+  inverseField?: string;
+  /**
+   * Name of the Prisma relation. Defaults to `${Model}To${ReferencedModel}`.
+   */
+  name?: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+/**
+ * Declares the field as a foreign key. zodToPrisma generates the relation from the declaration,
+ * and zodToMongoose maps the field to a `ref` (or a populate virtual for non-id references),
+ * instead of guessing the model from the field name.
+ *
+ * @param schema - The foreign key field.
+ * @param options - The relation.
+ * @returns A copy of the field carrying the relation.
+ */
+export function withRelation<T extends ZodTypeAny>(
+  schema: T,
+  options: IRelationOptions
+): T {
+  return extendZodDef(schema, { relation: options });
+}
+
+/**
+ * The relation declared on a field or on any schema it wraps.
+ */
+export function getRelation(schema: ZodTypeAny): IRelationOptions | undefined {
+  const innerType: ZodTypeAny | undefined =
+    schema._def.innerType ?? schema._def.schema;
+  return schema._def.relation ?? (innerType && getRelation(innerType));
+}
+
+/**
+ * Whether the relation references the id of the related model.
+ */
+export function referencesId(relation: IRelationOptions): boolean {
+  return !relation.references || ['id', '_id'].includes(relation.references);
+}
+
+/**
+ * The default name of the field holding the record a foreign key references.
+ */
+export function getRelationFieldName(key: string): string {
+  return key.endsWith('Id') && key.length > 2
+    ? key.slice(0, -2)
+    : `${key}Relation`;
+}
@@ -0,0 +1,65 @@
+import { Types } from 'mongoose';
+import { ZodTypeAny } from 'zod';
+
+export function capitalize(str: string): string {
+  if (!str) return str;
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+export function camelCase(str: string): string {
+  if (!str) return str;
+  return str.charAt(0).toLowerCase() + str.slice(1);
+}
+
+/**
+ * Pluralizes an English noun using the common suffix rules
+ * (`category` -> `categories`, `address` -> `addresses`, `post` -> `posts`).
+ */
+export function pluralize(str: string): string {
+  if (!str) return str;
+  if (/[^aeiou]y$/i.test(str)) {
+    return `${str.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/i.test(str)) {
+    return `${str}es`;
+  }
+  return `${str}s`;
+}
+
+/**
+ * Copies a Zod schema with extra properties on its definition. Metadata stored this way survives
+ * further chaining and never leaks into other fields reusing the original schema.
+ */
+export function extendZodDef<T extends ZodTypeAny>(
+  schema: T,
+  properties: Record<string, unknown>
+): T {
+  const ZodSchemaClass = schema.constructor as new (def: any) => T;
+  return new ZodSchemaClass({ ...schema._def, ...properties });
+}
+
+/**
+ * Replaces ObjectIds with their hex string, recursively through arrays and plain objects,
+ * so values read from MongoDB can be parsed by schemas declaring ids as strings.
+ */
+export function flattenObjectIds(value: unknown): unknown {
+  if (value instanceof Types.ObjectId) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(flattenObjectIds);
+  }
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value as object).map(([key, entry]) => [
+        key,
+        flattenObjectIds(entry),
+      ])
+    );
+  }
+  return value;
+}
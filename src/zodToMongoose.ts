@@ -1,226 +1,1436 @@
 // zodToMongoose.ts
 import mongoose, {
-  Document,
+  Connection,
+  IndexDefinition,
+  IndexOptions,
   Model,
   Schema,
   SchemaDefinition,
+  SchemaOptions,
   SchemaTypeOptions,
+  Types,
+  ValidateOpts,
 } from 'mongoose';
+import { isDeepStrictEqual } from 'util';
 import {
   z,
   ZodArray,
+  ZodBigInt,
   ZodBoolean,
   ZodDate,
   ZodDefault,
+  ZodDiscriminatedUnion,
+  ZodEffects,
   ZodEnum,
+  ZodError,
+  ZodIssue,
   ZodLiteral,
   ZodNullable,
   ZodNumber,
   ZodObject,
   ZodOptional,
+  ZodSchema,
   ZodString,
   ZodTypeAny,
 } from 'zod';
+import { getZodObjectIdRef, isZodObjectId } from './objectId';
+import { getRelation, getRelationFieldName, referencesId } from './relations';
+import {
+  camelCase,
+  capitalize,
+  extendZodDef,
+  flattenObjectIds,
+  pluralize,
+} from './utils';
+
+/**
+ * A Zod object, optionally wrapped in refinements or transforms (`.refine`, `.superRefine`, `.transform`).
+ */
+export type MongooseZodObject = ZodObject<any> | ZodEffects<any, any, any>;
+
+/**
+ * Mongoose SchemaType options that can be attached to a Zod field with `withMongooseOptions`.
+ */
+export interface IMongooseFieldOptions {
+  index?: boolean;
+  unique?: boolean;
+  sparse?: boolean;
+  select?: boolean;
+  immutable?: boolean;
+  lowercase?: boolean;
+  uppercase?: boolean;
+  trim?: boolean;
+  alias?: string;
+}
+
+export interface IZodToMongooseOptions {
+  /**
+   * Attaches a Mongoose validator to every field wrapped in a refinement or transform,
+   * running the field's Zod schema against the value.
+   */
+  refinementValidators?: boolean;
+  /**
+   * Registry of known models. `fooId` / `fooIds` string fields pointing at a registered `Foo`
+   * model become ObjectId references; explicit relationship mappings take precedence.
+   */
+  modelNameToSchema?: Map<string, ZodSchema<any>>;
+  /**
+   * Gives nested objects and array elements their own `_id`, as Mongoose does by default.
+   * Off by default, since the Zod schema does not declare them.
+   */
+  subdocumentIds?: boolean;
+}
+
+/**
+ * A schema-level index, passed to `schema.index(fields, options)`.
+ * Covers compound, unique, text (with `weights`), partial (`partialFilterExpression`)
+ * and TTL (`expireAfterSeconds`) indexes.
+ */
+export interface IMongooseIndex {
+  fields: IndexDefinition;
+  options?: IndexOptions;
+}
+
+/**
+ * A model referencing the model being created, used to register virtual populate fields.
+ */
+export interface IMongooseRelatedModel {
+  name: string;
+  schema: MongooseZodObject;
+  relationshipMappings?: Record<string, string>;
+  /**
+   * Virtual names keyed by the related model's reference field. Defaults to the pluralized
+   * model name (`posts`), or `postsByAuthor` when several fields reference the same model.
+   */
+  virtualNames?: Record<string, string>;
+  /**
+   * Populates a single document instead of an array (one-to-one relations).
+   */
+  justOne?: boolean;
+}
+
+export interface ICreateMongooseModelOptions {
+  /**
+   * Enforces the Zod schema on Mongoose writes: refined fields get field-level validators and a
+   * `pre('validate')` hook runs the whole Zod schema, reporting each issue as a ValidationError entry.
+   */
+  validateWithZod?: boolean;
+  /**
+   * Validates the fields written by `updateOne`, `updateMany` and `findOneAndUpdate` against their
+   * Zod schemas, and the documents written by `replaceOne` and `findOneAndReplace` against the
+   * whole schema, which Mongoose validation skips by default.
+   */
+  validateUpdatesWithZod?: boolean;
+  /**
+   * Registry of known models used to infer references from `fooId` / `fooIds` field names.
+   */
+  modelNameToSchema?: Map<string, ZodSchema<any>>;
+  /**
+   * Gives nested objects and array elements their own `_id`. Off by default.
+   */
+  subdocumentIds?: boolean;
+  /**
+   * Indexes declared on the schema before the model is registered.
+   */
+  indexes?: IMongooseIndex[];
+  /**
+   * Models referencing this one. A virtual populate field is registered for each reverse relation.
+   */
+  relatedModels?: IMongooseRelatedModel[];
+  /**
+   * Mongoose schema options, merged over the default `{ timestamps: true }`.
+   */
+  schemaOptions?: SchemaOptions;
+  /**
+   * Connection to register the model on. Defaults to the global mongoose instance.
+   */
+  connection?: Connection;
+}
+
+/**
+ * Any Zod schema createMongooseModel can build a model from.
+ */
+export type MongooseZodSchema =
+  | MongooseZodObject
+  | ZodDiscriminatedUnion<string, ZodObject<any>[]>;
+
+/**
+ * Fields added by Mongoose when the `timestamps` schema option is enabled.
+ */
+export interface IMongooseTimestamps {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Options for zodToObject and zodToObjectAsync.
+ */
+export interface IZodToObjectOptions {
+  /**
+   * Makes every top-level field optional (useful for updates).
+   */
+  partial?: boolean;
+  /**
+   * Makes every field optional, including the fields of nested objects and arrays.
+   */
+  deepPartial?: boolean;
+  /**
+   * How keys missing from the schema are handled: removed (`strip`, Zod's default), kept
+   * (`passthrough`) or rejected (`strict`). Applies to the top-level object.
+   */
+  unknownKeys?: 'strip' | 'passthrough' | 'strict';
+}
+
+/**
+ * Makes every field optional, including the fields of nested objects and array elements.
+ */
+type DeepPartial<T> = T extends readonly (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends Date | Types.ObjectId
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+/**
+ * The output of zodToObject: `Partial<T>` with the `partial` option, `DeepPartial<T>` with
+ * `deepPartial`, and `T` otherwise.
+ */
+export type ZodToObjectOutput<
+  T,
+  TOptions extends IZodToObjectOptions
+> = TOptions extends { deepPartial: true }
+  ? DeepPartial<T>
+  : TOptions extends { partial: true }
+  ? Partial<T>
+  : T;
+
+/**
+ * Types a referenced field as ObjectId (or ObjectId[] for arrays), keeping null and undefined.
+ */
+type MongooseRefType<T> = T extends readonly unknown[]
+  ? Types.ObjectId[]
+  : T extends null | undefined
+  ? T
+  : Types.ObjectId;
+
+/**
+ * The field names of a relationship mapping, ignoring mappings without literal keys
+ * (e.g. when no mapping is passed and the type falls back to `Record<string, string>`).
+ */
+type MongooseRefKeys<TRefs> = string extends keyof TRefs ? never : keyof TRefs;
+
+/**
+ * The fields of a Zod input type accepting ObjectId instances, i.e. those declared with zodObjectId.
+ */
+type ObjectIdInputKeys<TInput> = {
+  [K in keyof TInput]-?: unknown extends TInput[K]
+    ? never
+    : Types.ObjectId extends ArrayElement<NonNullable<TInput[K]>>
+    ? K
+    : never;
+}[keyof TInput];
+
+type ArrayElement<T> = T extends readonly (infer E)[] ? E : T;
+
+type WithMongooseRefs<T, TRefs, TInput> = {
+  [K in keyof T]: K extends MongooseRefKeys<TRefs> | ObjectIdInputKeys<TInput>
+    ? MongooseRefType<T[K]>
+    : T[K];
+};
+
+/**
+ * The document type of a model created by createMongooseModel, derived from the Zod schema:
+ * zodObjectId fields and fields listed in the relationship mappings are typed as ObjectIds, and
+ * `createdAt`/`updatedAt` are added unless timestamps are disabled in the schema options.
+ */
+export type InferMongooseDocType<
+  TSchema extends ZodTypeAny,
+  TRefs = {},
+  TOptions extends ICreateMongooseModelOptions = {}
+> = (z.infer<TSchema> extends infer TOutput
+  ? TOutput extends unknown
+    ? WithMongooseRefs<TOutput, TRefs, z.input<TSchema>>
+    : never
+  : never) &
+  (TOptions['schemaOptions'] extends { timestamps: false }
+    ? {}
+    : IMongooseTimestamps);
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Human-readable descriptions of the Zod string formats, used in validation messages.
+ */
+const STRING_FORMAT_DESCRIPTIONS: Record<string, string> = {
+  url: 'a valid URL',
+  uuid: 'a valid UUID',
+  cuid: 'a valid CUID',
+  cuid2: 'a valid CUID2',
+  ulid: 'a valid ULID',
+  nanoid: 'a valid Nano ID',
+  emoji: 'an emoji',
+  datetime: 'a valid ISO 8601 datetime',
+  date: 'a valid ISO 8601 date',
+  time: 'a valid ISO 8601 time',
+  duration: 'a valid ISO 8601 duration',
+  ip: 'a valid IP address',
+  base64: 'a valid base64 string',
+};
+
+/**
+ * Mongoose types for the primitive values a `z.literal()` can hold.
+ */
+const LITERAL_TYPES: Record<string, any> = {
+  string: String,
+  number: Number,
+  boolean: Boolean,
+};
+
+interface IMongooseDiscriminatorVariant {
+  value: string;
+  definition: SchemaDefinition;
+}
+
+interface IMongooseDiscriminatorDefinition {
+  discriminatorKey: string;
+  baseDefinition: SchemaDefinition;
+  variants: IMongooseDiscriminatorVariant[];
+}
+
+/**
+ * Attaches Mongoose SchemaType options (unique, index, select, ...) to a Zod field.
+ * The options are stored on a copy of the schema, so they survive further chaining
+ * (`.min()`, `.optional()`, ...) and never leak into other fields reusing the original schema.
+ * @param schema - The Zod schema of the field.
+ * @param options - The Mongoose options to apply to the generated field.
+ * @returns A copy of the Zod schema carrying the options.
+ */
+export function withMongooseOptions<T extends ZodTypeAny>(
+  schema: T,
+  options: IMongooseFieldOptions
+): T {
+  return extendZodDef(schema, {
+    mongooseOptions: { ...getMongooseOptions(schema), ...options },
+  });
+}
+
+/**
+ * Reads the Mongoose options attached to a Zod schema with `withMongooseOptions`.
+ * @param schema - The Zod schema to read.
+ * @returns The attached options, if any.
+ */
+function getMongooseOptions(
+  schema: ZodTypeAny
+): IMongooseFieldOptions | undefined {
+  return schema._def.mongooseOptions;
+}
 
 /**
  * Converts a Zod schema to a Mongoose SchemaDefinition.
- * Handles basic types and references between models.
+ * Handles basic types, nested objects (as subdocument schemas) and references between models.
  * @param zodSchema - The Zod schema to convert.
  * @param relationshipMappings - Optional mapping of field names to referenced model names.
+ * Fields of nested objects are addressed with dot notation (e.g. `address.countryId`).
+ * @param options - Optional conversion settings.
  * @returns A Mongoose SchemaDefinition.
  */
 export function zodToMongoose(
-  zodSchema: ZodObject<any>,
-  relationshipMappings?: Record<string, string>
+  zodSchema: MongooseZodObject,
+  relationshipMappings?: Record<string, string>,
+  options?: IZodToMongooseOptions
 ): SchemaDefinition {
   const mongooseSchemaDefinition: SchemaDefinition = {};
 
-  const shape = zodSchema.shape;
+  const shape = unwrapZodObject(zodSchema).shape;
 
   for (const [key, schema] of Object.entries(shape)) {
-    const mongooseField: SchemaTypeOptions<any> = {};
+    mongooseSchemaDefinition[key] = zodFieldToMongoose(
+      schema as ZodTypeAny,
+      key,
+      relationshipMappings,
+      options
+    );
+  }
 
-    let currentSchema: ZodTypeAny = schema as ZodTypeAny;
-    let isOptional = false;
-    let hasDefault = false;
-    let defaultValue: any;
+  return mongooseSchemaDefinition;
+}
 
-    // Unwrap optional, default, and nullable schemas
-    while (
-      currentSchema instanceof ZodOptional ||
+/**
+ * Converts a single Zod field to Mongoose SchemaTypeOptions.
+ * @param schema - The Zod schema of the field.
+ * @param key - The name of the field.
+ * @param relationshipMappings - Optional mapping of field names to referenced model names.
+ * @param options - Optional conversion settings.
+ * @returns The Mongoose SchemaTypeOptions for the field.
+ */
+function zodFieldToMongoose(
+  schema: ZodTypeAny,
+  key: string,
+  relationshipMappings?: Record<string, string>,
+  options?: IZodToMongooseOptions
+): SchemaTypeOptions<any> {
+  const mongooseField: SchemaTypeOptions<any> = {};
+
+  let currentSchema: ZodTypeAny = schema;
+  let isOptional = false;
+  let isNullable = false;
+  let hasDefault = false;
+  let hasEffects = false;
+  let defaultValue: any;
+  // Options attached with withMongooseOptions, from the outermost wrapper inwards
+  const fieldOptions: IMongooseFieldOptions[] = [];
+
+  // Unwrap optional, default, nullable and effects schemas (zodObjectId is kept as is)
+  while (
+    (currentSchema instanceof ZodOptional ||
       currentSchema instanceof ZodDefault ||
-      currentSchema instanceof ZodNullable
-    ) {
-      if (currentSchema instanceof ZodOptional) {
-        isOptional = true;
-        currentSchema = currentSchema._def.innerType;
+      currentSchema instanceof ZodNullable ||
+      currentSchema instanceof ZodEffects) &&
+    !isZodObjectId(currentSchema)
+  ) {
+    fieldOptions.push(getMongooseOptions(currentSchema) ?? {});
+    if (currentSchema instanceof ZodOptional) {
+      isOptional = true;
+      currentSchema = currentSchema._def.innerType;
+    } else if (currentSchema instanceof ZodDefault) {
+      hasDefault = true;
+      const getDefault = currentSchema._def.defaultValue;
+      const value = getDefault();
+      // Objects, arrays and dates are created per document instead of being shared
+      defaultValue =
+        value !== null && typeof value === 'object' ? getDefault : value;
+      currentSchema = currentSchema._def.innerType;
+    } else if (currentSchema instanceof ZodNullable) {
+      isNullable = true;
+      currentSchema = currentSchema._def.innerType;
+    } else if (currentSchema instanceof ZodEffects) {
+      hasEffects = true;
+      currentSchema = currentSchema._def.schema;
+    }
+  }
+
+  // Explicit mappings take precedence over declared relations, zodObjectId refs and references
+  // inferred from the field name. Relations to other fields than the id are populated through virtuals.
+  const valueSchema =
+    currentSchema instanceof ZodArray ? currentSchema.element : currentSchema;
+  const relation = getRelation(schema) ?? getRelation(valueSchema);
+  const ref =
+    relationshipMappings?.[key] ??
+    (relation
+      ? referencesId(relation)
+        ? relation.model
+        : undefined
+      : getZodObjectIdRef(valueSchema) ??
+        inferReference(key, currentSchema, options?.modelNameToSchema));
+
+  // First, check if the field is an array
+  if (currentSchema instanceof ZodArray) {
+    const arraySchema = currentSchema as ZodArray<any>;
+    const itemType = arraySchema._def.type;
+
+    if (ref) {
+      // Array of references
+      mongooseField.type = [mongoose.Schema.Types.ObjectId];
+      mongooseField.ref = ref;
+    } else {
+      // Elements are converted like fields; arrays of objects become document arrays
+      const elementField = zodFieldToMongoose(
+        itemType,
+        key,
+        relationshipMappings,
+        options
+      );
+      delete elementField.required;
+      mongooseField.type = [
+        Object.keys(elementField).length === 1
+          ? elementField.type
+          : elementField,
+      ];
+    }
+
+    // Array length checks
+    const { minLength, maxLength, exactLength } = arraySchema._def;
+    if (minLength) {
+      addValidator(mongooseField, {
+        validator: (value: unknown[] | null) =>
+          value == null || value.length >= minLength.value,
+        message:
+          minLength.message ??
+          `{PATH} must contain at least ${minLength.value} element(s)`,
+      });
+    }
+    if (maxLength) {
+      addValidator(mongooseField, {
+        validator: (value: unknown[] | null) =>
+          value == null || value.length <= maxLength.value,
+        message:
+          maxLength.message ??
+          `{PATH} must contain at most ${maxLength.value} element(s)`,
+      });
+    }
+    if (exactLength) {
+      addValidator(mongooseField, {
+        validator: (value: unknown[] | null) =>
+          value == null || value.length === exactLength.value,
+        message:
+          exactLength.message ??
+          `{PATH} must contain exactly ${exactLength.value} element(s)`,
+      });
+    }
+  } else if (ref || isZodObjectId(currentSchema)) {
+    // Single reference (zodObjectId fields without a model are plain ObjectIds)
+    mongooseField.type = mongoose.Schema.Types.ObjectId;
+    if (ref) {
+      mongooseField.ref = ref;
+    }
+  } else {
+    // Map Zod types to Mongoose types
+    switch (currentSchema.constructor) {
+      case ZodString:
+        mongooseField.type = String;
+        const stringSchema = currentSchema as ZodString;
+        stringSchema._def.checks.forEach((check) => {
+          switch (check.kind) {
+            case 'min':
+              mongooseField.minlength = check.message
+                ? [check.value, check.message]
+                : check.value;
+              break;
+            case 'max':
+              mongooseField.maxlength = check.message
+                ? [check.value, check.message]
+                : check.value;
+              break;
+            case 'length':
+              mongooseField.minlength = check.value;
+              mongooseField.maxlength = check.value;
+              break;
+            case 'email':
+              addPattern(mongooseField, EMAIL_REGEX, check.message);
+              break;
+            case 'regex':
+              addPattern(mongooseField, check.regex, check.message);
+              break;
+            case 'includes':
+              addValidator(mongooseField, {
+                validator: (value: string | null) =>
+                  value == null || value.includes(check.value, check.position),
+                message:
+                  check.message ?? `{PATH} must include "${check.value}"`,
+              });
+              break;
+            case 'startsWith':
+              addValidator(mongooseField, {
+                validator: (value: string | null) =>
+                  value == null || value.startsWith(check.value),
+                message:
+                  check.message ?? `{PATH} must start with "${check.value}"`,
+              });
+              break;
+            case 'endsWith':
+              addValidator(mongooseField, {
+                validator: (value: string | null) =>
+                  value == null || value.endsWith(check.value),
+                message:
+                  check.message ?? `{PATH} must end with "${check.value}"`,
+              });
+              break;
+            case 'trim':
+              mongooseField.trim = true;
+              break;
+            case 'toLowerCase':
+              mongooseField.lowercase = true;
+              break;
+            case 'toUpperCase':
+              mongooseField.uppercase = true;
+              break;
+            default:
+              // Formats (url, uuid, cuid, datetime, ip, ...) are checked by Zod itself
+              addValidator(mongooseField, {
+                validator: (value: string | null) =>
+                  value == null ||
+                  new ZodString({
+                    ...stringSchema._def,
+                    checks: [check],
+                  }).safeParse(value).success,
+                message:
+                  check.message ??
+                  `{PATH} must be ${
+                    STRING_FORMAT_DESCRIPTIONS[check.kind] ??
+                    `a valid ${check.kind}`
+                  }`,
+              });
+              break;
+          }
+        });
+        break;
+
+      case ZodNumber:
+        mongooseField.type = Number;
+        const numberSchema = currentSchema as ZodNumber;
+        numberSchema._def.checks.forEach((check) => {
+          switch (check.kind) {
+            case 'min':
+              if (check.inclusive) {
+                mongooseField.min = check.message
+                  ? [check.value, check.message]
+                  : check.value;
+              } else {
+                // Mongoose's min is inclusive, gt() needs a validator
+                addValidator(mongooseField, {
+                  validator: (value: number | null) =>
+                    value == null || value > check.value,
+                  message:
+                    check.message ??
+                    `{PATH} must be greater than ${check.value}`,
+                });
+              }
+              break;
+            case 'max':
+              if (check.inclusive) {
+                mongooseField.max = check.message
+                  ? [check.value, check.message]
+                  : check.value;
+              } else {
+                addValidator(mongooseField, {
+                  validator: (value: number | null) =>
+                    value == null || value < check.value,
+                  message:
+                    check.message ?? `{PATH} must be less than ${check.value}`,
+                });
+              }
+              break;
+            case 'int':
+              addValidator(mongooseField, {
+                validator: (value: number | null) =>
+                  value == null || Number.isInteger(value),
+                message: check.message ?? '{VALUE} is not an integer value',
+              });
+              break;
+            case 'multipleOf':
+            case 'finite':
+              // Checked by Zod itself (multipleOf handles floating point steps)
+              addValidator(mongooseField, {
+                validator: (value: number | null) =>
+                  value == null ||
+                  new ZodNumber({
+                    ...numberSchema._def,
+                    checks: [check],
+                  }).safeParse(value).success,
+                message:
+                  check.message ??
+                  (check.kind === 'multipleOf'
+                    ? `{PATH} must be a multiple of ${check.value}`
+                    : '{PATH} must be a finite number'),
+              });
+              break;
+            default:
+              break;
+          }
+        });
+        break;
+
+      case ZodBigInt:
+        mongooseField.type = BigInt;
+        const bigIntSchema = currentSchema as ZodBigInt;
+        bigIntSchema._def.checks.forEach((check) => {
+          // Mongoose has no bigint bounds, every check runs through Zod
+          addValidator(mongooseField, {
+            validator: (value: bigint | null) =>
+              value == null ||
+              new ZodBigInt({
+                ...bigIntSchema._def,
+                checks: [check],
+              }).safeParse(value).success,
+            message:
+              check.message ??
+              (check.kind === 'multipleOf'
+                ? `{PATH} must be a multiple of ${check.value}`
+                : `{PATH} must be ${
+                    check.kind === 'min' ? 'greater' : 'less'
+                  } than ${check.inclusive ? 'or equal to ' : ''}${
+                    check.value
+                  }`),
+          });
+        });
+        break;
+
+      case ZodBoolean:
+        mongooseField.type = Boolean;
+        break;
+
+      case ZodDate:
+        mongooseField.type = Date;
+        const dateSchema = currentSchema as ZodDate;
+        dateSchema._def.checks.forEach((check) => {
+          const bound: Date | [Date, string] = check.message
+            ? [new Date(check.value), check.message]
+            : new Date(check.value);
+          if (check.kind === 'min') {
+            mongooseField.min = bound;
+          } else {
+            mongooseField.max = bound;
+          }
+        });
+        break;
+
+      case ZodEnum:
+        const enumSchema = currentSchema as ZodEnum<any>;
+        mongooseField.type = String;
+        mongooseField.enum = enumSchema.options;
+        break;
+
+      case ZodLiteral:
+        const literalSchema = currentSchema as ZodLiteral<any>;
+        mongooseField.type =
+          LITERAL_TYPES[typeof literalSchema.value] ??
+          mongoose.Schema.Types.Mixed;
+        mongooseField.enum = [literalSchema.value];
+        break;
+
+      case ZodObject:
+        // Nested objects become single nested subdocuments
+        mongooseField.type = zodObjectToSubschema(
+          currentSchema as ZodObject<any>,
+          key,
+          relationshipMappings,
+          options
+        );
+        break;
+
+      default:
+        // Anything else (z.any(), z.unknown(), z.record(), ...) is stored as Mixed
+        mongooseField.type = mongoose.Schema.Types.Mixed;
+    }
+  }
+
+  // Apply options attached to the field, outer wrappers taking precedence
+  fieldOptions.push(getMongooseOptions(currentSchema) ?? {});
+  fieldOptions.reverse().forEach((attachedOptions) => {
+    Object.assign(mongooseField, attachedOptions);
+  });
+
+  // Run refinements and transforms through the field's Zod schema
+  if (hasEffects && options?.refinementValidators) {
+    addValidator(mongooseField, {
+      validator: (value: unknown) => schema.safeParse(value).success,
+      message: (props: { value: unknown }) => {
+        const result = schema.safeParse(props.value);
+        return result.success
+          ? `${key} is invalid`
+          : result.error.issues.map((issue) => issue.message).join(', ');
+      },
+    });
+  }
+
+  // Handle default values
+  if (hasDefault) {
+    mongooseField.default = defaultValue;
+  }
+
+  // Handle required fields: nullable fields must be present but may be null
+  if (isOptional) {
+    mongooseField.required = false;
+  } else if (isNullable) {
+    mongooseField.required = function (this: unknown) {
+      if (this instanceof mongoose.Document) {
+        return this.get(key) !== null;
       }
-      if (currentSchema instanceof ZodDefault) {
-        hasDefault = true;
-        defaultValue = currentSchema._def.defaultValue();
-        currentSchema = currentSchema._def.innerType;
+      // Update validators run with the query as `this` (`context: 'query'`) or without one:
+      // null may be written, and only unsetting the field is rejected
+      if (this instanceof mongoose.Query) {
+        const update = this.getUpdate() as Record<string, any> | null;
+        return !!update?.$unset && Object.hasOwn(update.$unset, key);
       }
-      if (currentSchema instanceof ZodNullable) {
-        currentSchema = currentSchema._def.innerType;
+      return false;
+    };
+  } else {
+    mongooseField.required = true;
+  }
+
+  return mongooseField;
+}
+
+/**
+ * Infers the model referenced by a `fooId` (string) or `fooIds` (array of strings) field.
+ * @param key - The name of the field.
+ * @param schema - The unwrapped Zod schema of the field.
+ * @param modelNameToSchema - Registry of known models.
+ * @returns The referenced model name, if `Foo` is a known model.
+ */
+function inferReference(
+  key: string,
+  schema: ZodTypeAny,
+  modelNameToSchema?: Map<string, ZodSchema<any>>
+): string | undefined {
+  if (!modelNameToSchema) {
+    return undefined;
+  }
+
+  const isArray = schema instanceof ZodArray;
+  const suffix = isArray ? 'Ids' : 'Id';
+  const valueSchema = isArray ? schema.element : schema;
+  if (
+    !(valueSchema instanceof ZodString || isZodObjectId(valueSchema)) ||
+    !key.endsWith(suffix) ||
+    key.length === suffix.length
+  ) {
+    return undefined;
+  }
+
+  const modelName = capitalize(key.slice(0, -suffix.length));
+  return modelNameToSchema.has(modelName) ? modelName : undefined;
+}
+
+/**
+ * Converts a nested Zod object to a Mongoose child schema.
+ * Relationship mappings prefixed with the parent field name (e.g. `address.countryId`)
+ * are forwarded to the nested fields.
+ * @param zodSchema - The nested Zod object.
+ * @param parentKey - The name of the field holding the nested object.
+ * @param relationshipMappings - Optional mapping of field names to referenced model names.
+ * @param options - Optional conversion settings.
+ * @returns A Mongoose Schema for the nested object.
+ */
+function zodObjectToSubschema(
+  zodSchema: ZodObject<any>,
+  parentKey: string,
+  relationshipMappings?: Record<string, string>,
+  options?: IZodToMongooseOptions
+): Schema {
+  const prefix = `${parentKey}.`;
+  const nestedMappings = relationshipMappings
+    ? Object.fromEntries(
+        Object.entries(relationshipMappings)
+          .filter(([path]) => path.startsWith(prefix))
+          .map(([path, ref]) => [path.slice(prefix.length), ref])
+      )
+    : undefined;
+
+  return new Schema(zodToMongoose(zodSchema, nestedMappings, options), {
+    _id: !!options?.subdocumentIds,
+  });
+}
+
+/**
+ * Adds a validator to a Mongoose field, keeping any validators already attached.
+ * @param mongooseField - The Mongoose field options to update.
+ * @param validator - The validator to add.
+ */
+function addValidator(
+  mongooseField: SchemaTypeOptions<any>,
+  validator: ValidateOpts<any, any>
+): void {
+  if (!mongooseField.validate) {
+    mongooseField.validate = validator;
+  } else if (Array.isArray(mongooseField.validate)) {
+    (mongooseField.validate as ValidateOpts<any, any>[]).push(validator);
+  } else {
+    mongooseField.validate = [mongooseField.validate, validator] as any;
+  }
+}
+
+/**
+ * Adds a pattern to a Mongoose string field. The first pattern uses Mongoose's `match` option,
+ * further patterns are added as validators so that they do not overwrite each other.
+ * @param mongooseField - The Mongoose field options to update.
+ * @param pattern - The regular expression the value must match.
+ * @param message - Optional custom error message.
+ */
+function addPattern(
+  mongooseField: SchemaTypeOptions<any>,
+  pattern: RegExp,
+  message?: string
+): void {
+  if (!mongooseField.match) {
+    mongooseField.match = message ? [pattern, message] : pattern;
+    return;
+  }
+
+  addValidator(mongooseField, {
+    validator: (value: string | null) => {
+      if (value == null) {
+        return true;
       }
+      pattern.lastIndex = 0;
+      return pattern.test(value);
+    },
+    message: message ?? 'Path `{PATH}` is invalid ({VALUE}).',
+  });
+}
+
+/**
+ * Strips refinements and transforms wrapped around a Zod object.
+ * @param zodSchema - The Zod schema to unwrap.
+ * @returns The underlying ZodObject.
+ * @throws An error if the schema does not wrap a ZodObject.
+ */
+function unwrapZodObject(zodSchema: ZodTypeAny): ZodObject<any> {
+  let currentSchema = zodSchema;
+  while (currentSchema instanceof ZodEffects) {
+    currentSchema = currentSchema._def.schema;
+  }
+
+  if (!(currentSchema instanceof ZodObject)) {
+    throw new Error(
+      'Only ZodObject schemas are supported for Mongoose schema generation.'
+    );
+  }
+
+  return currentSchema;
+}
+
+/**
+ * Applies the schema-level settings of createMongooseModel (validation hook, indexes, virtuals)
+ * to a Mongoose schema before its model is registered.
+ * @param modelName - The name of the model being created.
+ * @param schema - The Mongoose schema to configure.
+ * @param zodSchema - The Zod schema the Mongoose schema was generated from.
+ * @param options - The model settings.
+ */
+function configureSchema(
+  modelName: string,
+  schema: Schema,
+  zodSchema: ZodTypeAny,
+  options?: ICreateMongooseModelOptions
+): void {
+  if (options?.validateWithZod) {
+    addZodValidationHook(schema, zodSchema);
+  }
+  if (options?.validateUpdatesWithZod) {
+    addZodUpdateValidationHook(schema, zodSchema);
+  }
+
+  options?.indexes?.forEach(({ fields, options: indexOptions }) => {
+    schema.index(fields, indexOptions);
+  });
+
+  options?.relatedModels?.forEach((relatedModel) => {
+    addReverseRelationVirtuals(
+      modelName,
+      schema,
+      relatedModel,
+      options.modelNameToSchema
+    );
+  });
+
+  if (!(zodSchema instanceof ZodDiscriminatedUnion)) {
+    addForeignFieldVirtuals(schema, unwrapZodObject(zodSchema));
+  }
+}
+
+/**
+ * Registers a virtual populate field for every relation declared with withRelation that
+ * references another field than the id, such as `references: 'email'`.
+ * @param schema - The Mongoose schema to add the virtuals to.
+ * @param zodSchema - The Zod object the Mongoose schema was generated from.
+ */
+function addForeignFieldVirtuals(
+  schema: Schema,
+  zodSchema: ZodObject<any>
+): void {
+  Object.entries(zodSchema.shape).forEach(([key, value]) => {
+    const relation = getRelation(value as ZodTypeAny);
+    if (!relation || referencesId(relation)) {
+      return;
     }
 
-    // First, check if the field is an array
-    if (currentSchema instanceof ZodArray) {
-      const arraySchema = currentSchema as ZodArray<any>;
-      const itemType = arraySchema._def.type;
-
-      if (relationshipMappings && relationshipMappings[key]) {
-        // Array of references
-        mongooseField.type = [mongoose.Schema.Types.ObjectId];
-        mongooseField.ref = relationshipMappings[key];
-      } else {
-        // Handle non-reference array types
-        if (itemType instanceof ZodString) {
-          mongooseField.type = [String];
-        } else if (itemType instanceof ZodNumber) {
-          mongooseField.type = [Number];
-        } else if (itemType instanceof ZodBoolean) {
-          mongooseField.type = [Boolean];
-        } else if (itemType instanceof ZodObject) {
-          mongooseField.type = [mongoose.Schema.Types.Mixed];
-        } else {
-          mongooseField.type = [mongoose.Schema.Types.Mixed];
-        }
+    schema.virtual(relation.relationField ?? getRelationFieldName(key), {
+      ref: relation.model,
+      localField: key,
+      foreignField: relation.references,
+      justOne: true,
+    });
+  });
+}
 
-        // Optionally, you can handle nested validations here if needed
-      }
-    } else if (relationshipMappings && relationshipMappings[key]) {
-      // Single reference
-      mongooseField.type = mongoose.Schema.Types.ObjectId;
-      mongooseField.ref = relationshipMappings[key];
+/**
+ * Registers a virtual populate field for every field of a related model referencing this model.
+ * @param modelName - The name of the model being created.
+ * @param schema - The Mongoose schema of the model being created.
+ * @param relatedModel - The model holding the references.
+ * @param modelNameToSchema - Optional registry used to infer the related model's references.
+ */
+function addReverseRelationVirtuals(
+  modelName: string,
+  schema: Schema,
+  relatedModel: IMongooseRelatedModel,
+  modelNameToSchema?: Map<string, ZodSchema<any>>
+): void {
+  const relatedDefinition = zodToMongoose(
+    relatedModel.schema,
+    relatedModel.relationshipMappings,
+    { modelNameToSchema }
+  );
+  const foreignFields = Object.entries(relatedDefinition)
+    .filter(([, field]) => (field as SchemaTypeOptions<any>).ref === modelName)
+    .map(([fieldName]) => fieldName);
+
+  const baseName = relatedModel.justOne
+    ? camelCase(relatedModel.name)
+    : camelCase(pluralize(relatedModel.name));
+
+  foreignFields.forEach((foreignField) => {
+    const defaultName =
+      foreignFields.length > 1
+        ? `${baseName}By${capitalize(foreignField.replace(/Ids?$/, ''))}`
+        : baseName;
+
+    schema.virtual(relatedModel.virtualNames?.[foreignField] ?? defaultName, {
+      ref: relatedModel.name,
+      localField: '_id',
+      foreignField,
+      justOne: relatedModel.justOne ?? false,
+    });
+  });
+}
+
+/**
+ * Registers a model on the given connection, or on the global mongoose instance.
+ * @param modelName - The name of the model.
+ * @param schema - The Mongoose schema of the model.
+ * @param connection - Optional connection to register the model on.
+ * @returns The registered Mongoose model.
+ */
+function registerModel<T>(
+  modelName: string,
+  schema: Schema,
+  connection?: Connection
+): Model<T> {
+  return connection
+    ? connection.model<T>(modelName, schema)
+    : mongoose.model<T>(modelName, schema);
+}
+
+/**
+ * Registers a `pre('validate')` hook running the Zod schema against the whole document.
+ * Every Zod issue is reported as a ValidationError entry at the issue's path
+ * (`_root` for issues raised on the object itself).
+ * @param schema - The Mongoose schema to attach the hook to.
+ * @param zodSchema - The Zod schema to validate documents with.
+ */
+function addZodValidationHook(schema: Schema, zodSchema: ZodTypeAny): void {
+  schema.pre('validate', async function () {
+    const result = await zodSchema.safeParseAsync(
+      this.toObject({
+        depopulate: true,
+        flattenMaps: true,
+        flattenObjectIds: true,
+      })
+    );
+
+    if (result.success) {
+      return;
+    }
+
+    throw toMongooseValidationError(result.error.issues, this as any);
+  });
+}
+
+/**
+ * Converts Zod issues into a Mongoose ValidationError with one entry per issue path
+ * (`_root` for issues without a path).
+ */
+function toMongooseValidationError(
+  issues: ZodIssue[],
+  doc?: mongoose.Document,
+  getValue: (path: string) => unknown = (path) => doc?.get(path)
+): mongoose.Error.ValidationError {
+  const validationError = new mongoose.Error.ValidationError(doc as any);
+  issues.forEach((issue) => {
+    const path = issue.path.join('.') || '_root';
+    validationError.addError(
+      path,
+      new mongoose.Error.ValidatorError({
+        message: issue.message,
+        path,
+        type: issue.code,
+        value: issue.path.length ? getValue(path) : undefined,
+      })
+    );
+  });
+  return validationError;
+}
+
+/**
+ * Finds the Zod schema of a dotted document path (`address.city`, `tags.0`, `tags.$`),
+ * or undefined when the schema does not declare it.
+ */
+function getZodPathSchema(
+  zodSchema: ZodTypeAny,
+  path: string
+): ZodTypeAny | undefined {
+  let currentSchema: ZodTypeAny | undefined = zodSchema;
+  for (const segment of path.split('.')) {
+    while (
+      currentSchema instanceof ZodOptional ||
+      currentSchema instanceof ZodNullable ||
+      currentSchema instanceof ZodDefault ||
+      currentSchema instanceof ZodEffects
+    ) {
+      currentSchema =
+        currentSchema instanceof ZodEffects
+          ? currentSchema._def.schema
+          : currentSchema._def.innerType;
+    }
+
+    if (currentSchema instanceof ZodObject) {
+      currentSchema = currentSchema.shape[segment];
+    } else if (
+      currentSchema instanceof ZodArray &&
+      /^(\d+|\$)$/.test(segment)
+    ) {
+      currentSchema = currentSchema.element;
+    } else if (currentSchema instanceof ZodDiscriminatedUnion) {
+      currentSchema = (currentSchema.options as ZodObject<any>[])
+        .map((option) => option.shape[segment])
+        .find(Boolean);
     } else {
-      // Map Zod types to Mongoose types
-      switch (currentSchema.constructor) {
-        case ZodString:
-          mongooseField.type = String;
-          const stringSchema = currentSchema as ZodString;
-          stringSchema._def.checks.forEach((check) => {
-            switch (check.kind) {
-              case 'min':
-                mongooseField.minlength = check.value;
-                break;
-              case 'max':
-                mongooseField.maxlength = check.value;
-                break;
-              case 'email':
-                mongooseField.match = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-                break;
-              case 'regex':
-                mongooseField.match = check.regex;
-                break;
-              case 'includes':
-                break;
-              case 'length':
-                mongooseField.length = check.value;
-                break;
-              default:
-                break;
-            }
+      return undefined;
+    }
+
+    if (!currentSchema) {
+      return undefined;
+    }
+  }
+  return currentSchema;
+}
+
+/**
+ * Adds hooks validating the values written by update queries. Each updated path is parsed with
+ * its own Zod schema, so object-level refinements are not run on updates. Replacement documents
+ * are parsed with the whole schema, like saved documents.
+ */
+function addZodUpdateValidationHook(
+  schema: Schema,
+  zodSchema: ZodTypeAny
+): void {
+  schema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate'],
+    async function () {
+      const update = this.getUpdate();
+      // Aggregation pipeline updates cannot be checked path by path
+      if (!update || Array.isArray(update)) {
+        return;
+      }
+
+      // Values written by the update, keyed by path (unset paths are validated as undefined)
+      const writes: [string, unknown][] = [];
+      Object.entries(update).forEach(([key, value]) => {
+        if (!key.startsWith('$')) {
+          writes.push([key, value]);
+        } else if (key === '$set' || key === '$setOnInsert') {
+          writes.push(...Object.entries(value ?? {}));
+        } else if (key === '$unset') {
+          Object.keys(value ?? {}).forEach((path) => {
+            writes.push([path, undefined]);
           });
-          break;
-
-        case ZodNumber:
-          mongooseField.type = Number;
-          const numberSchema = currentSchema as ZodNumber;
-          numberSchema._def.checks.forEach((check) => {
-            switch (check.kind) {
-              case 'min':
-                mongooseField.min = check.value;
-                break;
-              case 'max':
-                mongooseField.max = check.value;
-                break;
-              case 'int':
-                mongooseField.validate = {
-                  validator: Number.isInteger,
-                  message: '{VALUE} is not an integer value',
-                };
-                break;
-              default:
-                break;
+        } else if (key === '$push' || key === '$addToSet') {
+          Object.entries(value ?? {}).forEach(
+            ([path, element]: [string, any]) => {
+              const elements = Array.isArray(element?.$each)
+                ? element.$each
+                : [element];
+              elements.forEach((item: unknown) => {
+                writes.push([`${path}.$`, item]);
+              });
             }
-          });
-          break;
-
-        case ZodBoolean:
-          mongooseField.type = Boolean;
-          break;
-
-        case ZodDate:
-          mongooseField.type = Date;
-          break;
-
-        case ZodEnum:
-          const enumSchema = currentSchema as ZodEnum<any>;
-          mongooseField.type = String;
-          mongooseField.enum = enumSchema.options;
-          break;
-
-        case ZodLiteral:
-          const literalSchema = currentSchema as ZodLiteral<any>;
-          mongooseField.type = typeof literalSchema.value;
-          mongooseField.enum = [literalSchema.value];
-          break;
-
-        case ZodObject:
-          mongooseField.type = mongoose.Schema.Types.Mixed;
-          break;
-
-        default:
-          mongooseField.type = mongoose.Schema.Types.Mixed;
+          );
+        }
+      });
+
+      const issues: ZodIssue[] = [];
+      for (const [path, value] of writes) {
+        const pathSchema = getZodPathSchema(zodSchema, path);
+        if (!pathSchema) {
+          continue;
+        }
+
+        const result = await pathSchema.safeParseAsync(flattenObjectIds(value));
+        if (!result.success) {
+          const basePath = path.split('.').filter((segment) => segment !== '$');
+          issues.push(
+            ...result.error.issues.map((issue) => ({
+              ...issue,
+              path: [...basePath, ...issue.path],
+            }))
+          );
+        }
+      }
+
+      if (issues.length) {
+        const values = new Map(writes);
+        throw toMongooseValidationError(issues, undefined, (path) =>
+          values.get(path)
+        );
       }
     }
+  );
 
-    // Handle default values
-    if (hasDefault) {
-      mongooseField.default = defaultValue;
+  schema.pre(['replaceOne', 'findOneAndReplace'], async function () {
+    const replacement = this.getUpdate();
+    if (!replacement) {
+      return;
     }
 
-    // Handle required fields
-    mongooseField.required = !isOptional;
+    // Cast like the replacement Mongoose writes, with defaults applied
+    const doc = new this.model(replacement);
+    const result = await zodSchema.safeParseAsync(
+      doc.toObject({
+        depopulate: true,
+        flattenMaps: true,
+        flattenObjectIds: true,
+      })
+    );
+    if (!result.success) {
+      throw toMongooseValidationError(result.error.issues, doc);
+    }
+  });
+}
 
-    // Assign the field to the schema definition
-    mongooseSchemaDefinition[key] = mongooseField;
-  }
+/**
+ * Converts a Zod discriminated union to the Mongoose definitions needed for discriminators.
+ * Fields every variant declares the same way go into the base definition, the remaining fields
+ * of each variant go into that variant's definition.
+ * @param unionSchema - The Zod discriminated union to convert.
+ * @param relationshipMappings - Optional mapping of field names to referenced model names.
+ * @param options - Optional conversion settings.
+ * @returns The discriminator key, the base SchemaDefinition and one SchemaDefinition per variant.
+ */
+export function zodDiscriminatedUnionToMongoose(
+  unionSchema: ZodDiscriminatedUnion<string, ZodObject<any>[]>,
+  relationshipMappings?: Record<string, string>,
+  options?: IZodToMongooseOptions
+): IMongooseDiscriminatorDefinition {
+  const discriminatorKey = unionSchema.discriminator;
+  const variantSchemas = Array.from(unionSchema.optionsMap.entries());
 
-  return mongooseSchemaDefinition;
+  // A field is shared when every variant declares it with the same definition
+  const sharedKeys = Object.keys(variantSchemas[0]?.[1].shape ?? {}).filter(
+    (key) => {
+      if (
+        key === discriminatorKey ||
+        !variantSchemas.every(([, variantSchema]) => key in variantSchema.shape)
+      ) {
+        return false;
+      }
+      const fieldSchemas: ZodTypeAny[] = variantSchemas.map(
+        ([, variantSchema]) => variantSchema.shape[key]
+      );
+      if (
+        fieldSchemas.every((fieldSchema) => fieldSchema === fieldSchemas[0])
+      ) {
+        return true;
+      }
+      const [firstDefinition, ...otherDefinitions] = variantSchemas.map(
+        ([, variantSchema]) =>
+          zodToMongoose(
+            variantSchema.pick({ [key]: true }),
+            relationshipMappings,
+            options
+          )[key]
+      );
+      return otherDefinitions.every((definition) =>
+        isDeepStrictEqual(definition, firstDefinition)
+      );
+    }
+  );
+
+  const baseDefinition: SchemaDefinition =
+    variantSchemas.length > 0
+      ? zodToMongoose(
+          variantSchemas[0][1].pick(
+            Object.fromEntries(sharedKeys.map((key) => [key, true]))
+          ),
+          relationshipMappings,
+          options
+        )
+      : {};
+
+  const variants = variantSchemas.map(([value, variantSchema]) => ({
+    value: String(value),
+    definition: zodToMongoose(
+      variantSchema.omit(
+        Object.fromEntries(
+          [discriminatorKey, ...sharedKeys].map((key) => [key, true])
+        )
+      ),
+      relationshipMappings,
+      options
+    ),
+  }));
+
+  return { discriminatorKey, baseDefinition, variants };
 }
 
 /**
  * Creates a Mongoose model from a Zod schema.
- * Checks if the model already exists to prevent OverwriteModelError.
+ * Checks if the model already exists on the target connection to prevent OverwriteModelError.
+ * When given a discriminated union, a base model is created from the shared fields and one
+ * discriminator named `${modelName}${Value}` is registered per variant.
  * @param modelName - The name of the model.
- * @param zodSchema - The Zod schema to convert.
+ * @param zodSchema - The Zod schema (object or discriminated union) to convert.
  * @param relationshipMappings - Optional mapping of field names to referenced model names.
- * @returns A Mongoose model.
+ * @param options - Optional model settings.
+ * @returns A Mongoose model typed from the Zod schema (see InferMongooseDocType).
  */
-export function createMongooseModel<T extends Document>(
+export function createMongooseModel<
+  TSchema extends MongooseZodSchema,
+  TRefs extends Record<string, string> = {},
+  TOptions extends ICreateMongooseModelOptions = {}
+>(
   modelName: string,
-  zodSchema: ZodObject<any>,
-  relationshipMappings?: Record<string, string>
-): Model<T> {
-  // Check if the model already exists in Mongoose's model registry
-  if (mongoose.models[modelName]) {
-    return mongoose.models[modelName] as Model<T>;
+  zodSchema: TSchema,
+  relationshipMappings?: TRefs,
+  options?: TOptions
+): Model<InferMongooseDocType<TSchema, TRefs, TOptions>> {
+  type T = InferMongooseDocType<TSchema, TRefs, TOptions>;
+
+  // Check if the model already exists in the connection's model registry
+  const existingModels = options?.connection?.models ?? mongoose.models;
+  if (existingModels[modelName]) {
+    return existingModels[modelName] as Model<T>;
+  }
+
+  const schemaOptions: SchemaOptions = {
+    timestamps: true,
+    ...options?.schemaOptions,
+  };
+  const conversionOptions: IZodToMongooseOptions = {
+    refinementValidators: options?.validateWithZod,
+    modelNameToSchema: options?.modelNameToSchema,
+    subdocumentIds: options?.subdocumentIds,
+  };
+
+  if (zodSchema instanceof ZodDiscriminatedUnion) {
+    const { discriminatorKey, baseDefinition, variants } =
+      zodDiscriminatedUnionToMongoose(
+        zodSchema,
+        relationshipMappings,
+        conversionOptions
+      );
+
+    // Create the base schema and model holding the shared fields
+    const baseSchema = new Schema(baseDefinition, {
+      ...schemaOptions,
+      discriminatorKey,
+    });
+    configureSchema(modelName, baseSchema, zodSchema, options);
+    const model = registerModel<T>(modelName, baseSchema, options?.connection);
+
+    // Register one discriminator per variant
+    variants.forEach(({ value, definition }) => {
+      model.discriminator(
+        `${modelName}${capitalize(value)}`,
+        new Schema(definition),
+        value
+      );
+    });
+
+    return model;
   }
 
   // Convert Zod schema to Mongoose schema definition
   const mongooseSchemaDefinition: SchemaDefinition = zodToMongoose(
-    zodSchema,
-    relationshipMappings
+    zodSchema as MongooseZodObject,
+    relationshipMappings,
+    conversionOptions
   );
 
   // Create a new Mongoose schema
-  const schema = new Schema(mongooseSchemaDefinition, { timestamps: true });
+  const schema = new Schema(mongooseSchemaDefinition, schemaOptions);
+  configureSchema(modelName, schema, zodSchema, options);
 
   // Create and return the Mongoose model
-  return mongoose.model<T>(modelName, schema);
+  return registerModel<T>(modelName, schema, options?.connection);
+}
+
+/**
+ * Error thrown by zodToObject when the data does not match the schema.
+ * Keeps the Zod issues so callers can build their own responses.
+ */
+export class ZodValidationError<T = any> extends Error {
+  /**
+   * The issues reported by Zod.
+   */
+  readonly issues: ZodIssue[];
+  /**
+   * Messages per field, keyed by dotted path (`_root` for issues on the whole object).
+   */
+  readonly fieldErrors: Record<string, string[]>;
+  /**
+   * The data that failed validation.
+   */
+  readonly input: unknown;
+
+  constructor(error: ZodError<T>, input: unknown) {
+    const errorMessages = error.issues
+      .map((issue) => `${issue.path.join('.')} - ${issue.message}`)
+      .join(', ');
+    super(`Zod validation error: ${errorMessages}`);
+    this.name = 'ZodValidationError';
+    this.issues = error.issues;
+    this.fieldErrors = {};
+    this.input = input;
+
+    error.issues.forEach((issue) => {
+      const path = issue.path.join('.') || '_root';
+      (this.fieldErrors[path] ??= []).push(issue.message);
+    });
+  }
+}
+
+/**
+ * Applies the zodToObject options to the object schema, under the refinements and transforms
+ * wrapping it.
+ */
+function getZodToObjectSchema<T>(
+  zodSchema: z.ZodType<T>,
+  options?: IZodToObjectOptions
+): ZodTypeAny {
+  const isPartial = !!(options?.partial || options?.deepPartial);
+  if (!isPartial && !options?.unknownKeys) {
+    return zodSchema;
+  }
+
+  const effects: ZodEffects<ZodTypeAny>[] = [];
+  let objectSchema: ZodTypeAny = zodSchema;
+  while (objectSchema instanceof ZodEffects) {
+    effects.push(objectSchema);
+    objectSchema = objectSchema._def.schema;
+  }
+  if (!(objectSchema instanceof ZodObject)) {
+    return zodSchema;
+  }
+
+  let schemaToUse: ZodObject<any> = objectSchema;
+  if (options?.deepPartial) {
+    schemaToUse = schemaToUse.deepPartial();
+  } else if (options?.partial) {
+    schemaToUse = schemaToUse.partial();
+  }
+  if (options?.unknownKeys) {
+    schemaToUse = schemaToUse[options.unknownKeys]();
+  }
+
+  // Object-level refinements expect the whole object, so partial data skips them. Transforms
+  // would then output something else than the partial object, so they are rejected.
+  if (
+    isPartial &&
+    effects.some((effect) => effect._def.effect.type === 'transform')
+  ) {
+    throw new Error(
+      'zodToObject cannot apply partial or deepPartial to a schema with object-level transforms.'
+    );
+  }
+  return effects.reduceRight<ZodTypeAny>(
+    (schema, effect) =>
+      isPartial && effect._def.effect.type === 'refinement'
+        ? schema
+        : new ZodEffects({ ...effect._def, schema }),
+    schemaToUse
+  );
 }
 
 /**
@@ -231,26 +1441,50 @@ export function createMongooseModel<T extends Document>(
  * @param data - The input data to validate.
  * @param options - Optional configuration for validation behavior.
  * @param options.partial - If true, makes all fields optional for partial validation (useful for updates).
+ * @param options.deepPartial - If true, also makes the fields of nested objects optional.
+ * @param options.unknownKeys - Whether unknown keys are stripped (default), kept or rejected.
+ * @returns The validated and sanitized object, partial with the partial options.
+ * @throws A ZodValidationError if validation fails.
+ */
+export function zodToObject<T, TOptions extends IZodToObjectOptions = {}>(
+  zodSchema: z.ZodType<T>,
+  data: any,
+  options?: TOptions
+): ZodToObjectOutput<T, TOptions> {
+  const parseResult = getZodToObjectSchema(zodSchema, options).safeParse(data);
+
+  if (!parseResult.success) {
+    throw new ZodValidationError<T>(parseResult.error, data);
+  }
+
+  return parseResult.data as ZodToObjectOutput<T, TOptions>;
+}
+
+/**
+ * Async variant of zodToObject, required when the schema has async refinements or transforms.
+ *
+ * @param zodSchema - The Zod schema to validate against.
+ * @param data - The input data to validate.
+ * @param options - Same options as zodToObject.
  * @returns The validated and sanitized object.
- * @throws An error if validation fails.
+ * @throws A ZodValidationError if validation fails.
  */
-export function zodToObject<T>(
+export async function zodToObjectAsync<
+  T,
+  TOptions extends IZodToObjectOptions = {}
+>(
   zodSchema: z.ZodType<T>,
   data: any,
-  options?: { partial?: boolean }
-): T {
-  const schemaToUse =
-    options?.partial && zodSchema instanceof ZodObject
-      ? zodSchema.partial()
-      : zodSchema;
-  const parseResult = schemaToUse.safeParse(data);
+  options?: TOptions
+): Promise<ZodToObjectOutput<T, TOptions>> {
+  const parseResult = await getZodToObjectSchema(
+    zodSchema,
+    options
+  ).safeParseAsync(data);
 
   if (!parseResult.success) {
-    const errorMessages = parseResult.error.errors
-      .map((err) => `${err.path.join('.')} - ${err.message}`)
-      .join(', ');
-    throw new Error(`Zod validation error: ${errorMessages}`);
+    throw new ZodValidationError<T>(parseResult.error, data);
   }
 
-  return parseResult.data as T;
+  return parseResult.data as ZodToObjectOutput<T, TOptions>;
 }
@@ -3,11 +3,13 @@
 import {
   z,
   ZodArray,
+  ZodBigInt,
   ZodBoolean,
   ZodDate,
   ZodDefault,
   ZodEffects,
   ZodEnum,
+  ZodLazy,
   ZodLiteral,
   ZodNativeEnum,
   ZodNullable,
@@ -18,21 +20,168 @@ import {
   ZodString,
   ZodTypeAny,
 } from 'zod';
+import { getZodObjectIdRef, isZodObjectId } from './objectId';
+import {
+  getRelation,
+  getRelationFieldName,
+  ReferentialAction,
+  referencesId,
+} from './relations';
+import { camelCase, capitalize, extendZodDef, pluralize } from './utils';
+
+type PrismaProvider =
+  | 'postgresql'
+  | 'mysql'
+  | 'sqlite'
+  | 'sqlserver'
+  | 'cockroachdb'
+  | 'mongodb';
+
+/**
+ * How ids are generated: `@default(uuid())`, `@default(cuid())`, `@default(autoincrement())`, or
+ * a database expression such as `{ dbgenerated: 'gen_random_uuid()' }`.
+ */
+type PrismaIdStrategy =
+  | 'uuid'
+  | 'cuid'
+  | 'autoincrement'
+  | { dbgenerated: string };
+
+interface IPrismaDatasourceOptions {
+  /**
+   * The database provider. Defaults to `postgresql`.
+   */
+  provider?: PrismaProvider;
+  /**
+   * Environment variable holding the connection URL. Defaults to `POSTGRESQL_DATABASE_URL`
+   * for PostgreSQL and `DATABASE_URL` otherwise.
+   */
+  url?: string;
+  /**
+   * Environment variable holding a direct connection URL, used by the CLI behind a connection pooler.
+   */
+  directUrl?: string;
+  /**
+   * Environment variable holding the URL of the shadow database used by `prisma migrate dev`.
+   */
+  shadowDatabaseUrl?: string;
+  /**
+   * `prisma` emulates relations in Prisma Client instead of using foreign keys.
+   */
+  relationMode?: 'foreignKeys' | 'prisma';
+}
+
+interface IPrismaGeneratorOptions {
+  /**
+   * Name of the generator block.
+   */
+  name: string;
+  /**
+   * Generator to run. Defaults to `prisma-client-js`.
+   */
+  provider?: string;
+  output?: string;
+  previewFeatures?: string[];
+  binaryTargets?: string[];
+}
+
+interface IZodToPrismaOptions {
+  /**
+   * The `datasource db` block. Defaults to PostgreSQL.
+   */
+  datasource?: IPrismaDatasourceOptions;
+  /**
+   * The generator blocks. Defaults to a single `prisma-client-js` generator named `client`.
+   */
+  generators?: IPrismaGeneratorOptions[];
+  /**
+   * Adds `@unique` to fields whose name contains "email". Defaults to true.
+   */
+  uniqueEmails?: boolean;
+  /**
+   * How generated ids and plain `id` fields get their value. Defaults to `autoincrement` for
+   * integer ids, `uuid` for string ids and no default for other types.
+   */
+  idStrategy?: PrismaIdStrategy;
+}
+
+/**
+ * Prisma attributes declared on a Zod field with withPrismaAttributes. They take precedence
+ * over the attributes zodToPrisma infers.
+ */
+interface IPrismaFieldAttributes {
+  /**
+   * Makes the field the primary key (`@id`), replacing the generated `id` field.
+   */
+  id?: boolean;
+  /**
+   * Adds (or with `false`, prevents) `@unique`. A unique foreign key makes a one-to-one relation.
+   */
+  unique?: boolean;
+  /**
+   * The `@default` expression, as written in Prisma: `cuid()`, `autoincrement()`, `now()`, `"draft"`...
+   */
+  default?: string;
+  /**
+   * Adds `@updatedAt`.
+   */
+  updatedAt?: boolean;
+  /**
+   * The column name (`@map`).
+   */
+  map?: string;
+  /**
+   * The native database type, without the `@db.` prefix: `VarChar(255)`, `Text`...
+   */
+  db?: string;
+  /**
+   * Adds `@ignore`, leaving the field out of Prisma Client.
+   */
+  ignore?: boolean;
+}
+
+/**
+ * Types each provider supports natively. Unsupported enums are stored as strings, and
+ * unsupported scalar lists as JSON (or strings when JSON is unsupported as well).
+ */
+const PRISMA_PROVIDER_CAPABILITIES: Record<
+  PrismaProvider,
+  { enums: boolean; scalarLists: boolean; json: boolean }
+> = {
+  postgresql: { enums: true, scalarLists: true, json: true },
+  cockroachdb: { enums: true, scalarLists: true, json: true },
+  mysql: { enums: true, scalarLists: false, json: true },
+  sqlite: { enums: false, scalarLists: false, json: false },
+  sqlserver: { enums: false, scalarLists: false, json: false },
+  mongodb: { enums: true, scalarLists: true, json: true },
+};
 
 interface IPrismaField {
   name: string;
   type: string;
   isRequired: boolean;
   isUnique?: boolean;
+  isObjectId?: boolean;
   isId?: boolean;
   isAutoIncrement?: boolean;
   default?: string;
+  isUpdatedAt?: boolean;
+  map?: string;
+  nativeType?: string;
+  isIgnored?: boolean;
   isEnum?: boolean;
   isRelation?: boolean;
   relationModel?: string;
   relationName?: string;
   relationFields?: string[];
   references?: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+interface IPrismaModel {
+  name: string;
+  schema: ZodSchema<any>;
 }
 
 interface IPrismaEnum {
@@ -40,29 +189,190 @@ interface IPrismaEnum {
   values: string[];
 }
 
-const enums: IPrismaEnum[] = [];
+/**
+ * An explicit join model declared with withPrismaJoinModel.
+ */
+interface IPrismaJoinModelOptions {
+  /**
+   * Name of the join model.
+   */
+  name: string;
+  /**
+   * Extra fields stored on the join model, such as `assignedAt`.
+   */
+  schema?: ZodObject<any>;
+}
 
-function getEnumName(fieldName: string): string {
-  return `${capitalize(fieldName)}Enum`;
+/**
+ * A join model generated for a many-to-many relation, identified by both foreign keys.
+ */
+interface IPrismaJoinModel {
+  name: string;
+  fields: IPrismaField[];
+}
+
+/**
+ * State collected while generating one Prisma schema.
+ */
+interface IPrismaGenerationContext {
+  /**
+   * Enums referenced by the generated models.
+   */
+  enums: IPrismaEnum[];
+  /**
+   * Explicit join models of many-to-many relations.
+   */
+  joinModels: IPrismaJoinModel[];
+  /**
+   * Names given to the relations, keyed by the fields declaring them, so each name is used once.
+   */
+  relationNames: Map<string, string>;
+  /**
+   * The datasource provider the models are generated for. Defaults to `postgresql`.
+   */
+  provider?: PrismaProvider;
+  /**
+   * Whether fields whose name contains "email" are unique. Defaults to true.
+   */
+  uniqueEmails?: boolean;
+  /**
+   * How generated ids and plain `id` fields get their value.
+   */
+  idStrategy?: PrismaIdStrategy;
+}
+
+function getProviderCapabilities(context: IPrismaGenerationContext) {
+  return PRISMA_PROVIDER_CAPABILITIES[context.provider ?? 'postgresql'];
+}
+
+/**
+ * Names the Prisma enum generated for a Zod enum, instead of the default `${Model}${Field}Enum`.
+ * @param schema - The Zod enum.
+ * @param name - The name of the Prisma enum.
+ * @returns A copy of the Zod enum carrying the name.
+ */
+function withPrismaEnumName<T extends ZodEnum<any> | ZodNativeEnum<any>>(
+  schema: T,
+  name: string
+): T {
+  return extendZodDef(schema as ZodTypeAny, { prismaEnumName: name }) as T;
+}
+
+/**
+ * Declares Prisma attributes on a field, merged with any declared before.
+ * @param schema - The Zod field.
+ * @param attributes - The attributes of the generated Prisma field.
+ * @returns A copy of the Zod field carrying the attributes.
+ */
+function withPrismaAttributes<T extends ZodTypeAny>(
+  schema: T,
+  attributes: IPrismaFieldAttributes
+): T {
+  return extendZodDef(schema, {
+    prismaAttributes: { ...schema._def.prismaAttributes, ...attributes },
+  });
 }
 
-function capitalize(str: string): string {
-  if (!str) return str;
-  return str.charAt(0).toUpperCase() + str.slice(1);
+/**
+ * The attributes declared on a field and the schemas it wraps, outer declarations winning.
+ */
+function getPrismaAttributes(zodType: ZodTypeAny): IPrismaFieldAttributes {
+  const innerType: ZodTypeAny | undefined =
+    zodType._def.innerType ?? zodType._def.schema;
+  return {
+    ...(innerType && getPrismaAttributes(innerType)),
+    ...zodType._def.prismaAttributes,
+  };
 }
 
-function camelCase(str: string): string {
-  if (!str) return str;
-  return str.charAt(0).toLowerCase() + str.slice(1);
+/**
+ * Stores a many-to-many relation in an explicit join model instead of an implicit relation.
+ * Declaring it on either side of the relation is enough.
+ * @param schema - The array of related records.
+ * @param options - The join model name and the schema of its extra fields.
+ * @returns A copy of the array schema carrying the join model.
+ */
+function withPrismaJoinModel<T extends ZodArray<any>>(
+  schema: T,
+  options: IPrismaJoinModelOptions
+): T {
+  return extendZodDef(schema, { prismaJoinModel: options });
+}
+
+function getPrismaJoinModelOptions(
+  zodType: ZodTypeAny | undefined
+): IPrismaJoinModelOptions | undefined {
+  if (!zodType) {
+    return undefined;
+  }
+  return (
+    zodType._def.prismaJoinModel ??
+    getPrismaJoinModelOptions(zodType._def.innerType ?? zodType._def.schema)
+  );
+}
+
+function hasSameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Registers the enum of a field and returns its name. Enums without an explicit name reuse
+ * any enum already declared with the same values.
+ */
+function registerPrismaEnum(
+  zodType: ZodTypeAny,
+  values: string[],
+  modelName: string,
+  fieldName: string,
+  context: IPrismaGenerationContext
+): string {
+  const explicitName: string | undefined = zodType._def.prismaEnumName;
+  if (!explicitName) {
+    const identicalEnum = context.enums.find((e) =>
+      hasSameValues(e.values, values)
+    );
+    if (identicalEnum) {
+      return identicalEnum.name;
+    }
+  }
+
+  const enumName = explicitName ?? `${modelName}${capitalize(fieldName)}Enum`;
+  const existingEnum = context.enums.find((e) => e.name === enumName);
+  if (existingEnum && !hasSameValues(existingEnum.values, values)) {
+    throw new Error(
+      `Prisma enum "${enumName}" is declared twice with different values.`
+    );
+  }
+  if (!existingEnum) {
+    context.enums.push({ name: enumName, values });
+  }
+  return enumName;
 }
 
 function zodTypeToPrisma(
   zodType: ZodTypeAny,
   fieldName: string,
-  schemaToModelName: Map<ZodSchema<any>, string>
+  schemaToModelName: Map<ZodSchema<any>, string>,
+  modelName: string,
+  context: IPrismaGenerationContext
 ): string {
+  if (zodType instanceof ZodLazy) {
+    return zodTypeToPrisma(
+      zodType.schema,
+      fieldName,
+      schemaToModelName,
+      modelName,
+      context
+    );
+  }
   if (zodType instanceof ZodEffects) {
-    return zodTypeToPrisma(zodType._def.schema, fieldName, schemaToModelName);
+    return zodTypeToPrisma(
+      zodType._def.schema,
+      fieldName,
+      schemaToModelName,
+      modelName,
+      context
+    );
   }
 
   if (zodType instanceof ZodString) {
@@ -76,6 +386,9 @@ function zodTypeToPrisma(
     }
     return 'Float';
   }
+  if (zodType instanceof ZodBigInt) {
+    return 'BigInt';
+  }
   if (zodType instanceof ZodBoolean) {
     return 'Boolean';
   }
@@ -83,42 +396,51 @@ function zodTypeToPrisma(
     return 'DateTime';
   }
   if (zodType instanceof ZodArray) {
-    const elementType = zodType.element;
+    const elementType = unwrapPrismaFieldType(zodType.element);
     const relatedModelName = schemaToModelName.get(elementType);
     if (relatedModelName) {
       return `${relatedModelName}[]`;
     }
+    const capabilities = getProviderCapabilities(context);
+    if (!capabilities.scalarLists) {
+      return capabilities.json ? 'Json' : 'String';
+    }
     const prismaElementType = zodTypeToPrisma(
       elementType,
       fieldName,
-      schemaToModelName
+      schemaToModelName,
+      modelName,
+      context
     );
     return `${prismaElementType}[]`;
   }
+  if (
+    (zodType instanceof ZodEnum || zodType instanceof ZodNativeEnum) &&
+    !getProviderCapabilities(context).enums
+  ) {
+    return 'String';
+  }
   if (zodType instanceof ZodEnum) {
-    const enumName = getEnumName(fieldName);
-    if (!enums.find((e) => e.name === enumName)) {
-      enums.push({
-        name: enumName,
-        values: zodType._def.values,
-      });
-    }
-    return enumName;
+    return registerPrismaEnum(
+      zodType,
+      zodType._def.values,
+      modelName,
+      fieldName,
+      context
+    );
   }
   if (zodType instanceof ZodNativeEnum) {
     const enumObj = zodType._def.values;
     const enumValues = Object.values(enumObj).filter(
       (v) => typeof v === 'string'
     ) as string[];
-    const enumName = getEnumName(fieldName);
-
-    if (!enums.find((e) => e.name === enumName)) {
-      enums.push({
-        name: enumName,
-        values: enumValues,
-      });
-    }
-    return enumName;
+    return registerPrismaEnum(
+      zodType,
+      enumValues,
+      modelName,
+      fieldName,
+      context
+    );
   }
   if (zodType instanceof ZodLiteral) {
     const literalValue = zodType._def.value;
@@ -138,51 +460,537 @@ function zodTypeToPrisma(
     if (relatedModelName) {
       return relatedModelName;
     }
-    return 'Json';
+    return getProviderCapabilities(context).json ? 'Json' : 'String';
   }
   throw new Error(`Unsupported Zod type: ${zodType.constructor.name}`);
 }
 
+/**
+ * The `id` field of a model declaring none, or a plain one: filled in by the id strategy, or a
+ * database-generated ObjectId on MongoDB.
+ * @param idType - The Prisma type of the declared `id` field, if any.
+ */
+function getIdField(
+  context: IPrismaGenerationContext,
+  modelName: string,
+  idType?: string
+): IPrismaField {
+  const isMongoDb = context.provider === 'mongodb';
+  if (isMongoDb && context.idStrategy === 'autoincrement') {
+    throw new Error(
+      `The "autoincrement" id strategy of model "${modelName}" is not supported on MongoDB.`
+    );
+  }
+  if (isMongoDb && (idType ?? 'String') === 'String') {
+    return {
+      name: 'id',
+      type: 'String',
+      isRequired: true,
+      isId: true,
+      isObjectId: true,
+      default: 'auto()',
+      map: '_id',
+    };
+  }
+
+  const isIntegerId = idType === 'Int' || idType === 'BigInt';
+  // Ids of other types (`Float`, `DateTime`, ...), and integer ids on MongoDB, have no default
+  // strategy
+  const strategy =
+    context.idStrategy ??
+    (isIntegerId
+      ? isMongoDb
+        ? undefined
+        : 'autoincrement'
+      : idType === undefined || idType === 'String'
+      ? 'uuid'
+      : undefined);
+  const type = idType ?? (strategy === 'autoincrement' ? 'Int' : 'String');
+  if (
+    (strategy === 'autoincrement' && type !== 'Int' && type !== 'BigInt') ||
+    ((strategy === 'uuid' || strategy === 'cuid') && type !== 'String')
+  ) {
+    throw new Error(
+      `The "${strategy}" id strategy does not apply to the ${type} id of model "${modelName}".`
+    );
+  }
+
+  return {
+    name: 'id',
+    type,
+    isRequired: true,
+    isId: true,
+    default:
+      strategy === undefined
+        ? undefined
+        : typeof strategy === 'string'
+        ? `${strategy}()`
+        : `dbgenerated("${strategy.dbgenerated}")`,
+  };
+}
+
+/**
+ * The id field of a model, which foreign keys referencing the model follow. Undefined for
+ * composite ids.
+ */
+function getPrismaIdField(
+  modelName: string,
+  schemaToModelName: Map<ZodSchema<any>, string>,
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  context: IPrismaGenerationContext
+): { name: string; type: string } | undefined {
+  const schema = modelNameToSchema.get(modelName);
+  if (!(schema instanceof ZodObject)) {
+    return undefined;
+  }
+
+  const entries = Object.entries(schema.shape) as [string, ZodTypeAny][];
+  const explicitIds = entries.filter(
+    ([, value]) => getPrismaAttributes(value).id
+  );
+  if (explicitIds.length > 1) {
+    return undefined;
+  }
+
+  const idEntry = explicitIds[0] ?? entries.find(([key]) => key === 'id');
+  if (!idEntry) {
+    return { name: 'id', type: getIdField(context, modelName).type };
+  }
+  const [idName, idSchema] = idEntry;
+  return {
+    name: idName,
+    type: zodTypeToPrisma(
+      unwrapPrismaFieldType(idSchema),
+      idName,
+      schemaToModelName,
+      modelName,
+      context
+    ),
+  };
+}
+
+/**
+ * The list of ids a MongoDB model keeps for a many-to-many relation, with the id field of the
+ * related model it references.
+ */
+function getPrismaIdsField(
+  name: string,
+  relatedModelName: string,
+  schemaToModelName: Map<ZodSchema<any>, string>,
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  context: IPrismaGenerationContext
+): { field: IPrismaField; reference: string } {
+  const idField = getPrismaIdField(
+    relatedModelName,
+    schemaToModelName,
+    modelNameToSchema,
+    context
+  );
+  const type = idField?.type ?? 'String';
+  return {
+    field: {
+      name,
+      type: `${type}[]`,
+      isRequired: true,
+      isObjectId: type === 'String',
+    },
+    reference: idField?.name ?? 'id',
+  };
+}
+
+/**
+ * Unwraps the optional, nullable, default, effects and lazy layers of a field, stopping at zodObjectId.
+ */
+function unwrapPrismaFieldType(zodType: ZodTypeAny): ZodTypeAny {
+  while (
+    (zodType instanceof ZodOptional ||
+      zodType instanceof ZodNullable ||
+      zodType instanceof ZodDefault ||
+      zodType instanceof ZodEffects ||
+      zodType instanceof ZodLazy) &&
+    !isZodObjectId(zodType)
+  ) {
+    if (zodType instanceof ZodEffects) {
+      zodType = zodType._def.schema;
+    } else if (zodType instanceof ZodLazy) {
+      zodType = zodType.schema;
+    } else {
+      zodType = zodType._def.innerType;
+    }
+  }
+  return zodType;
+}
+
+/**
+ * The model a foreign key references: the model of its withRelation declaration or zodObjectId,
+ * or else the known model a `fooId` field is named after. A model's own id is not taken for a
+ * key referencing the model itself.
+ */
+function getForeignKeyModel(
+  key: string,
+  value: ZodTypeAny,
+  modelName: string,
+  modelNameToSchema: Map<string, ZodSchema<any>>
+): string | undefined {
+  const relation = getRelation(value);
+  if (relation) {
+    if (!modelNameToSchema.has(relation.model)) {
+      throw new Error(
+        `Field "${key}" declares a relation to unknown model "${relation.model}".`
+      );
+    }
+    if (!referencesId(relation)) {
+      const referencedSchema = modelNameToSchema.get(relation.model);
+      const referencedField =
+        referencedSchema instanceof ZodObject
+          ? (referencedSchema.shape[relation.references!] as
+              | ZodTypeAny
+              | undefined)
+          : undefined;
+      if (!referencedField) {
+        throw new Error(
+          `Field "${key}" references unknown field "${relation.references}" of model "${relation.model}".`
+        );
+      }
+      if (getPrismaAttributes(referencedField).unique === false) {
+        throw new Error(
+          `Field "${key}" references field "${relation.references}" of model "${relation.model}", which is not unique.`
+        );
+      }
+    }
+    return relation.model;
+  }
+
+  const zodType = unwrapPrismaFieldType(value);
+  const isIdField =
+    key.endsWith('Id') &&
+    (zodType instanceof ZodString ||
+      zodType instanceof ZodNumber ||
+      isZodObjectId(zodType));
+  const relatedModelName =
+    getZodObjectIdRef(zodType) ??
+    (isIdField ? capitalize(key.slice(0, -2)) : undefined);
+  if (relatedModelName === modelName && getPrismaAttributes(value).id) {
+    return undefined;
+  }
+  return relatedModelName && modelNameToSchema.has(relatedModelName)
+    ? relatedModelName
+    : undefined;
+}
+
+/**
+ * The foreign keys of a model referencing the given model.
+ */
+function getForeignKeysTo(
+  schemaModelName: string,
+  modelName: string,
+  modelNameToSchema: Map<string, ZodSchema<any>>
+): string[] {
+  const schema = modelNameToSchema.get(schemaModelName);
+  if (!(schema instanceof ZodObject)) {
+    return [];
+  }
+  return Object.entries(schema.shape)
+    .filter(
+      ([key, value]) =>
+        getForeignKeyModel(
+          key,
+          value as ZodTypeAny,
+          schemaModelName,
+          modelNameToSchema
+        ) === modelName
+    )
+    .map(([key]) => key);
+}
+
+/**
+ * Whether a foreign key of any model references the field by name, which makes it unique.
+ */
+function isReferencedField(
+  modelName: string,
+  key: string,
+  modelNameToSchema: Map<string, ZodSchema<any>>
+): boolean {
+  return [...modelNameToSchema.values()].some(
+    (schema) =>
+      schema instanceof ZodObject &&
+      Object.values(schema.shape).some((value) => {
+        const relation = getRelation(value as ZodTypeAny);
+        return (
+          relation?.model === modelName &&
+          !referencesId(relation) &&
+          relation.references === key
+        );
+      })
+  );
+}
+
+/**
+ * The name of the field holding the record a foreign key references.
+ */
+function getForeignKeyRelationField(key: string, value: ZodTypeAny): string {
+  return getRelation(value)?.relationField ?? getRelationFieldName(key);
+}
+
+/**
+ * The field of a model embedding another model's schema, alone or in an array. It stands for
+ * the back-relation of the embedded model's foreign key. A model embedding itself is searched
+ * for another field than the one being resolved, and prefers a list (`children` over `parent`).
+ */
+function findEmbeddingField(
+  schema: ZodSchema<any> | undefined,
+  embeddedSchema: ZodSchema<any> | undefined,
+  excludedField?: string
+): { name: string; isList: boolean } | undefined {
+  if (!(schema instanceof ZodObject) || !embeddedSchema) {
+    return undefined;
+  }
+
+  const embeddingFields: { name: string; isList: boolean }[] = [];
+  for (const [key, value] of Object.entries(schema.shape)) {
+    if (key === excludedField) {
+      continue;
+    }
+    const zodType = unwrapPrismaFieldType(value as ZodTypeAny);
+    if (zodType === embeddedSchema) {
+      embeddingFields.push({ name: key, isList: false });
+    } else if (
+      zodType instanceof ZodArray &&
+      unwrapPrismaFieldType(zodType.element) === embeddedSchema
+    ) {
+      embeddingFields.push({ name: key, isList: true });
+    }
+  }
+  return schema === embeddedSchema
+    ? embeddingFields.find((field) => field.isList) ?? embeddingFields[0]
+    : embeddingFields[0];
+}
+
+/**
+ * The field of the related model standing for the back-relation of a model's foreign key: the
+ * field embedding the model, unless several keys reference the related model or the field is a
+ * side of a many-to-many relation.
+ */
+function findForeignKeyBackRelationField(
+  modelName: string,
+  relatedModelName: string,
+  modelNameToSchema: Map<string, ZodSchema<any>>
+): { name: string; isList: boolean } | undefined {
+  const schema = modelNameToSchema.get(modelName);
+  const relatedSchema = modelNameToSchema.get(relatedModelName);
+  const foreignKeys = getForeignKeysTo(
+    modelName,
+    relatedModelName,
+    modelNameToSchema
+  );
+  if (foreignKeys.length !== 1 || !(schema instanceof ZodObject)) {
+    return undefined;
+  }
+
+  // A self-relation's own field holding the referenced record is not its back-relation
+  const embeddingField = findEmbeddingField(
+    relatedSchema,
+    schema,
+    modelName === relatedModelName
+      ? getForeignKeyRelationField(foreignKeys[0], schema.shape[foreignKeys[0]])
+      : undefined
+  );
+  const isManyToMany =
+    embeddingField?.isList &&
+    findEmbeddingField(
+      schema,
+      relatedSchema,
+      modelName === relatedModelName ? embeddingField.name : undefined
+    )?.isList;
+  return isManyToMany ? undefined : embeddingField;
+}
+
+/**
+ * Names a relation once for all the fields declaring it. The preferred name is used unless
+ * another relation already has it, in which case the name qualified by the field is used.
+ * @param key - Identifies the relation, the same for both sides of a many-to-many relation.
+ */
+function registerRelationName(
+  context: IPrismaGenerationContext,
+  key: string,
+  preferredName: string,
+  qualifiedName: string
+): string {
+  const registeredName = context.relationNames.get(key);
+  if (registeredName) {
+    return registeredName;
+  }
+
+  const usedNames = new Set(context.relationNames.values());
+  let name = usedNames.has(preferredName) ? qualifiedName : preferredName;
+  for (let index = 2; usedNames.has(name); index++) {
+    name = `${qualifiedName}${index}`;
+  }
+  context.relationNames.set(key, name);
+  return name;
+}
+
+/**
+ * Name of the back-relation of a model referencing the same model several times, or itself,
+ * after the referencing field (`messagesBySender`), like the virtuals of createMongooseModel.
+ */
+function getQualifiedBackRelationName(
+  modelName: string,
+  fieldName: string,
+  isList: boolean
+): string {
+  const baseName = isList
+    ? pluralize(camelCase(modelName))
+    : camelCase(modelName);
+  return `${baseName}By${capitalize(fieldName)}`;
+}
+
+/**
+ * Name of the field of a join model holding one of the models it joins. The two sides of a
+ * self-relation are the model and the "other" model (`person` and `otherPerson`).
+ */
+function getJoinModelFieldName(modelName: string, isOtherSide = false): string {
+  return isOtherSide ? `other${modelName}` : camelCase(modelName);
+}
+
+/**
+ * Name of the relation between a join model and one of the models it joins.
+ */
+function getJoinModelRelationName(
+  joinModelName: string,
+  modelName: string,
+  isOtherSide = false
+): string {
+  return `${joinModelName}${
+    isOtherSide ? `Other${modelName}` : ''
+  }To${modelName}`;
+}
+
+/**
+ * Registers the join model of a many-to-many relation, once for both sides, and returns its name.
+ */
+function registerPrismaJoinModel(
+  options: IPrismaJoinModelOptions,
+  modelName: string,
+  relatedModelName: string,
+  schemaToModelName: Map<ZodSchema<any>, string>,
+  modelNameToRelations: Map<string, any>,
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  context: IPrismaGenerationContext
+): string {
+  if (context.joinModels.some((joinModel) => joinModel.name === options.name)) {
+    return options.name;
+  }
+
+  const joinModel: IPrismaJoinModel = {
+    name: options.name,
+    fields: [modelName, relatedModelName].flatMap((name, index) => {
+      const isOtherSide = index === 1 && modelName === relatedModelName;
+      const relationFieldName = getJoinModelFieldName(name, isOtherSide);
+      const foreignKey = `${relationFieldName}Id`;
+      const idField = getPrismaIdField(
+        name,
+        schemaToModelName,
+        modelNameToSchema,
+        context
+      );
+      const foreignKeyType = idField?.type ?? 'String';
+      return [
+        {
+          name: foreignKey,
+          type: foreignKeyType,
+          isRequired: true,
+          // Both foreign keys make the composite id
+          isId: true,
+          isObjectId:
+            context.provider === 'mongodb' && foreignKeyType === 'String',
+        },
+        {
+          name: relationFieldName,
+          type: name,
+          isRequired: true,
+          isRelation: true,
+          relationModel: name,
+          relationName: getJoinModelRelationName(
+            options.name,
+            name,
+            isOtherSide
+          ),
+          relationFields: [foreignKey],
+          references: [idField?.name ?? 'id'],
+        },
+      ];
+    }),
+  };
+  context.joinModels.push(joinModel);
+
+  if (options.schema) {
+    const extraFields = extractPrismaFields(
+      options.schema,
+      schemaToModelName,
+      options.name,
+      modelNameToRelations,
+      modelNameToSchema,
+      context
+    );
+    // The foreign keys identify the join model instead of a generated id
+    joinModel.fields.push(...extraFields.filter((field) => !field.isId));
+  }
+
+  return options.name;
+}
+
 function extractPrismaFields(
   zodObject: ZodObject<any>,
   schemaToModelName: Map<ZodSchema<any>, string>,
   modelName: string,
   modelNameToRelations: Map<string, any>,
-  modelNameToSchema: Map<string, ZodSchema<any>>
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  context: IPrismaGenerationContext
 ): IPrismaField[] {
   const shape = zodObject.shape;
   const fields: IPrismaField[] = [];
+  const explicitIdCount = Object.values(shape).filter(
+    (value) => getPrismaAttributes(value as ZodTypeAny).id
+  ).length;
+  const hasExplicitId = explicitIdCount > 0;
 
-  if (!shape.hasOwnProperty('id')) {
-    fields.push({
-      name: 'id',
-      type: 'String',
-      isRequired: true,
-      isUnique: true,
-      isId: true,
-      isAutoIncrement: false,
-      default: 'uuid()',
-    });
+  if (!shape.hasOwnProperty('id') && !hasExplicitId) {
+    fields.push(getIdField(context, modelName));
   }
 
   for (const [key, value] of Object.entries(shape)) {
-    if (key === 'id') {
-      fields.push({
-        name: 'id',
-        type: 'String',
-        isRequired: true,
-        isId: true,
-        isUnique: true,
-        isAutoIncrement: false,
-        default: 'uuid()',
-      });
+    const attributes = getPrismaAttributes(value as ZodTypeAny);
+
+    // A plain `id` field keeps its type and gets the id strategy
+    if (
+      key === 'id' &&
+      !hasExplicitId &&
+      Object.keys(attributes).length === 0
+    ) {
+      fields.push(
+        getIdField(
+          context,
+          modelName,
+          zodTypeToPrisma(
+            unwrapPrismaFieldType(value as ZodTypeAny),
+            key,
+            schemaToModelName,
+            modelName,
+            context
+          )
+        )
+      );
       continue;
     }
 
-    let isRequired = true;
+    let isOptional = false;
+    let isNullable = false;
     let isUnique = false;
-    const isId = false;
+    const isId = attributes.id ?? (key === 'id' && !hasExplicitId);
     const isAutoIncrement = false;
+    let hasDefault = false;
+    let defaultVal: unknown;
     let defaultValue: string | undefined;
     let isEnum = false;
     let isRelation = false;
@@ -193,123 +1001,401 @@ function extractPrismaFields(
     let zodType: ZodTypeAny = value as ZodTypeAny;
 
     while (
-      zodType instanceof ZodOptional ||
-      zodType instanceof ZodNullable ||
-      zodType instanceof ZodDefault ||
-      zodType instanceof ZodEffects
+      (zodType instanceof ZodOptional ||
+        zodType instanceof ZodNullable ||
+        zodType instanceof ZodDefault ||
+        zodType instanceof ZodEffects ||
+        zodType instanceof ZodLazy) &&
+      !isZodObjectId(zodType)
     ) {
-      if (zodType instanceof ZodOptional || zodType instanceof ZodNullable) {
-        isRequired = false;
+      if (zodType instanceof ZodOptional) {
+        // An optional wrapped in a default is always filled in
+        isOptional = isOptional || !hasDefault;
+        zodType = zodType.unwrap();
+      } else if (zodType instanceof ZodNullable) {
+        isNullable = true;
         zodType = zodType.unwrap();
       } else if (zodType instanceof ZodDefault) {
-        const defaultVal = zodType._def.defaultValue();
-        zodType = zodType._def.innerType;
-
-        if (zodType instanceof ZodBoolean) {
-          defaultValue = defaultVal ? 'true' : 'false';
-        } else if (zodType instanceof ZodString) {
-          defaultValue = `"${defaultVal}"`;
-        } else if (zodType instanceof ZodNumber) {
-          defaultValue = `${defaultVal}`;
-        } else if (zodType instanceof ZodDate) {
-          defaultValue = 'now()';
-        } else if (
-          zodType instanceof ZodEnum ||
-          zodType instanceof ZodNativeEnum
-        ) {
-          defaultValue = `${defaultVal}`;
+        if (!hasDefault) {
+          hasDefault = true;
+          defaultVal = zodType._def.defaultValue();
         }
+        zodType = zodType._def.innerType;
       } else if (zodType instanceof ZodEffects) {
         zodType = zodType._def.schema;
+      } else if (zodType instanceof ZodLazy) {
+        zodType = zodType.schema;
+      }
+    }
+
+    // Optional and nullable fields both map to nullable columns
+    const isRequired = !isOptional && !isNullable;
+
+    // A null default is the implicit default of a nullable column
+    if (hasDefault && defaultVal !== null && defaultVal !== undefined) {
+      if (zodType instanceof ZodBoolean) {
+        defaultValue = defaultVal ? 'true' : 'false';
+      } else if (zodType instanceof ZodString) {
+        defaultValue = `"${defaultVal}"`;
+      } else if (zodType instanceof ZodNumber) {
+        defaultValue = `${defaultVal}`;
+      } else if (zodType instanceof ZodDate) {
+        defaultValue = 'now()';
+      } else if (
+        zodType instanceof ZodEnum ||
+        zodType instanceof ZodNativeEnum
+      ) {
+        defaultValue = `${defaultVal}`;
       }
     }
 
-    if (key.toLowerCase().includes('email')) {
+    if (
+      (context.uniqueEmails !== false && key.toLowerCase().includes('email')) ||
+      isReferencedField(modelName, key, modelNameToSchema)
+    ) {
       isUnique = true;
     }
 
+    const attributeFields: Partial<IPrismaField> = {
+      isUpdatedAt: attributes.updatedAt,
+      map: attributes.map,
+      nativeType: attributes.db,
+      isIgnored: attributes.ignore,
+    };
+
     if (zodType instanceof ZodEnum || zodType instanceof ZodNativeEnum) {
-      isEnum = true;
+      if (getProviderCapabilities(context).enums) {
+        isEnum = true;
+      } else if (defaultValue) {
+        // Enums are stored as strings on this provider
+        defaultValue = `"${defaultValue}"`;
+      }
     }
 
     // Handle relations
     if (zodType instanceof ZodObject || zodType instanceof ZodArray) {
       const elementType =
-        zodType instanceof ZodArray ? zodType.element : zodType;
+        zodType instanceof ZodArray
+          ? unwrapPrismaFieldType(zodType.element)
+          : zodType;
       if (elementType instanceof ZodObject) {
         const relatedModelName = schemaToModelName.get(elementType);
-        if (relatedModelName) {
+        const relatedForeignKeys = relatedModelName
+          ? getForeignKeysTo(relatedModelName, modelName, modelNameToSchema)
+          : [];
+        if (
+          relatedModelName &&
+          (relatedForeignKeys.length > 1 ||
+            findForeignKeyBackRelationField(
+              relatedModelName,
+              modelName,
+              modelNameToSchema
+            )?.name === key)
+        ) {
+          // Generated as the back-relation of the related model's foreign keys
+          continue;
+        }
+        if (
+          relatedModelName &&
+          getForeignKeysTo(modelName, relatedModelName, modelNameToSchema).some(
+            (foreignKey) =>
+              getForeignKeyRelationField(foreignKey, shape[foreignKey]) === key
+          )
+        ) {
+          // Generated as the relation of this model's foreign key
+          continue;
+        }
+        // Both sides listing each other make a single many-to-many relation
+        const relatedSchema = relatedModelName
+          ? modelNameToSchema.get(relatedModelName)
+          : undefined;
+        const inverseField = findEmbeddingField(
+          relatedSchema,
+          modelNameToSchema.get(modelName),
+          relatedModelName === modelName ? key : undefined
+        );
+        const isManyToMany =
+          zodType instanceof ZodArray && inverseField?.isList === true;
+        const joinModelOptions =
+          getPrismaJoinModelOptions(value as ZodTypeAny) ??
+          (isManyToMany && relatedSchema instanceof ZodObject
+            ? getPrismaJoinModelOptions(relatedSchema.shape[inverseField.name])
+            : undefined);
+
+        if (
+          relatedModelName &&
+          zodType instanceof ZodArray &&
+          joinModelOptions
+        ) {
+          const joinModelName = registerPrismaJoinModel(
+            joinModelOptions,
+            modelName,
+            relatedModelName,
+            schemaToModelName,
+            modelNameToRelations,
+            modelNameToSchema,
+            context
+          );
+          // The two lists of a self-relation take a side each
+          const isSelfRelation = relatedModelName === modelName;
+          fields.push({
+            name: key,
+            type: `${joinModelName}[]`,
+            isRequired,
+            isRelation: true,
+            relationModel: joinModelName,
+            relationName: getJoinModelRelationName(
+              joinModelName,
+              modelName,
+              isSelfRelation && !!inverseField && inverseField.name < key
+            ),
+          });
+
+          // Without a list of its own, the related model gets a back-relation to the join model
+          if (!isManyToMany) {
+            const relatedRelations =
+              modelNameToRelations.get(relatedModelName) || [];
+            relatedRelations.push({
+              relationName: getJoinModelRelationName(
+                joinModelName,
+                relatedModelName,
+                isSelfRelation
+              ),
+              relatedModel: joinModelName,
+              type: 'many',
+              fieldName: isSelfRelation
+                ? getQualifiedBackRelationName(
+                    joinModelName,
+                    getJoinModelFieldName(relatedModelName, true),
+                    true
+                  )
+                : undefined,
+            });
+            modelNameToRelations.set(relatedModelName, relatedRelations);
+          }
+          continue;
+        }
+
+        if (relatedModelName && isManyToMany && inverseField) {
           isRelation = true;
           relationModel = relatedModelName;
-          relationName = `${modelName}To${relatedModelName}`;
+          // Named like the join table Prisma creates, whichever side comes first
+          const sides = [
+            { model: modelName, field: key },
+            { model: relatedModelName, field: inverseField.name },
+          ].sort((a, b) =>
+            `${a.model}.${a.field}` < `${b.model}.${b.field}` ? -1 : 1
+          );
+          relationName = registerRelationName(
+            context,
+            sides.map((side) => `${side.model}.${side.field}`).join('|'),
+            `${sides[0].model}To${sides[1].model}`,
+            `${sides[0].model}${capitalize(sides[0].field)}To${sides[1].model}`
+          );
+        } else if (relatedModelName) {
+          isRelation = true;
+          relationModel = relatedModelName;
+          relationName = registerRelationName(
+            context,
+            `${modelName}.${key}`,
+            `${modelName}To${relatedModelName}`,
+            `${modelName}${capitalize(key)}To${relatedModelName}`
+          );
 
           // Add relation to modelNameToRelations
+          const isList = zodType instanceof ZodArray;
+          // A model embedding itself cannot reuse the field name
+          const backRelationFieldName =
+            relatedModelName === modelName
+              ? getQualifiedBackRelationName(modelName, key, isList)
+              : key;
           const relatedRelations =
             modelNameToRelations.get(relatedModelName) || [];
-          if (zodType instanceof ZodArray) {
-            relatedRelations.push({
-              relationName,
-              relatedModel: modelName,
-              type: 'many',
-              fieldName: key,
-            });
-          } else {
-            relatedRelations.push({
-              relationName,
-              relatedModel: modelName,
-              type: 'one',
-              fieldName: key,
-            });
-          }
+          relatedRelations.push({
+            relationName,
+            relatedModel: modelName,
+            type: isList ? 'many' : 'one',
+            fieldName: backRelationFieldName,
+            ids:
+              isList && context.provider === 'mongodb'
+                ? getPrismaIdsField(
+                    `${backRelationFieldName}Ids`,
+                    modelName,
+                    schemaToModelName,
+                    modelNameToSchema,
+                    context
+                  )
+                : undefined,
+          });
           modelNameToRelations.set(relatedModelName, relatedRelations);
         }
+
+        // MongoDB has no join tables: lists of related records are kept as lists of their ids
+        if (
+          relatedModelName &&
+          zodType instanceof ZodArray &&
+          context.provider === 'mongodb'
+        ) {
+          const hasSeveralLists =
+            relatedModelName === modelName ||
+            Object.values(shape).filter((fieldSchema) => {
+              const fieldType = unwrapPrismaFieldType(
+                fieldSchema as ZodTypeAny
+              );
+              return (
+                fieldType instanceof ZodArray &&
+                unwrapPrismaFieldType(fieldType.element) === elementType
+              );
+            }).length > 1;
+          const ids = getPrismaIdsField(
+            hasSeveralLists ? `${key}Ids` : `${camelCase(relatedModelName)}Ids`,
+            relatedModelName,
+            schemaToModelName,
+            modelNameToSchema,
+            context
+          );
+          fields.push(ids.field);
+          relationFields.push(ids.field.name);
+          references.push(ids.reference);
+        }
       }
     }
 
-    // Handle foreign key fields
-    if (
-      key.endsWith('Id') &&
-      (zodType instanceof ZodString || zodType instanceof ZodNumber)
-    ) {
-      const relatedModelName = capitalize(key.slice(0, -2));
-      if (modelNameToSchema.has(relatedModelName)) {
-        // Add the ID field with @unique for one-to-one relations
-        fields.push({
-          name: key,
-          type: zodTypeToPrisma(zodType, key, schemaToModelName),
-          isRequired,
-          isUnique: true, // Set to true for one-to-one relations
-        });
-
-        // Add the relation field separately
-        fields.push({
-          name: key.slice(0, -2),
-          type: relatedModelName,
-          isRequired,
-          isRelation: true,
-          relationModel: relatedModelName,
-          relationName: `${modelName}To${relatedModelName}`,
-          relationFields: [key],
-          references: ['id'],
-        });
-
-        // Add reverse relation to modelNameToRelations
-        const relatedRelations =
-          modelNameToRelations.get(relatedModelName) || [];
-        relatedRelations.push({
-          relationName: `${modelName}To${relatedModelName}`,
-          relatedModel: modelName,
-          type: 'one',
-          fieldName: undefined,
-        });
-        modelNameToRelations.set(relatedModelName, relatedRelations);
-        continue;
+    // Handle foreign key fields: zodObjectId refs, or `fooId` fields named after a known model
+    const isObjectId =
+      isZodObjectId(zodType) ||
+      (zodType instanceof ZodArray && isZodObjectId(zodType.element));
+    const relatedModelName = getForeignKeyModel(
+      key,
+      value as ZodTypeAny,
+      modelName,
+      modelNameToSchema
+    );
+    if (relatedModelName) {
+      const relation = getRelation(value as ZodTypeAny);
+      const relationFieldName = getForeignKeyRelationField(
+        key,
+        value as ZodTypeAny
+      );
+      // Relations of models referencing the same model several times are told apart by field,
+      // and so are the back-relations of self-relations
+      const hasSeveralKeys =
+        getForeignKeysTo(modelName, relatedModelName, modelNameToSchema)
+          .length > 1;
+      const isAmbiguous = hasSeveralKeys || relatedModelName === modelName;
+      const qualifier = relation?.relationField ?? key.replace(/Id$/, '');
+      const qualifiedRelationName = `${modelName}${capitalize(
+        qualifier
+      )}To${relatedModelName}`;
+      const foreignKeyRelationName =
+        relation?.name ??
+        registerRelationName(
+          context,
+          `${modelName}.${key}`,
+          hasSeveralKeys
+            ? qualifiedRelationName
+            : `${modelName}To${relatedModelName}`,
+          qualifiedRelationName
+        );
+      // A field of the related model embedding this one names the back-relation
+      const embeddingField = findForeignKeyBackRelationField(
+        modelName,
+        relatedModelName,
+        modelNameToSchema
+      );
+      // Many-to-one, unless declared otherwise, the key is the only id or the related model
+      // embeds a single record
+      const isOneToOne =
+        attributes.unique ??
+        ((isId && explicitIdCount < 2) ||
+          (relation?.cardinality
+            ? relation.cardinality === 'one-to-one'
+            : embeddingField
+            ? !embeddingField.isList
+            : false));
+      // Keys of the related id take its name and type
+      const referencedIdField =
+        !relation || referencesId(relation)
+          ? getPrismaIdField(
+              relatedModelName,
+              schemaToModelName,
+              modelNameToSchema,
+              context
+            )
+          : undefined;
+      if ((!relation || referencesId(relation)) && !referencedIdField) {
+        throw new Error(
+          `Foreign key "${key}" of model "${modelName}" references model "${relatedModelName}", which has a composite id. Declare the referenced field with withRelation({ references }).`
+        );
       }
+      const foreignKeyType =
+        referencedIdField && !(zodType instanceof ZodArray)
+          ? referencedIdField.type
+          : zodTypeToPrisma(
+              zodType,
+              key,
+              schemaToModelName,
+              modelName,
+              context
+            );
+
+      fields.push({
+        name: key,
+        type: foreignKeyType,
+        isRequired,
+        // Ids are unique already
+        isUnique: !isId && isOneToOne,
+        isId,
+        default: attributes.default,
+        // MongoDB ids are ObjectIds, so string keys referencing them are as well
+        isObjectId:
+          isObjectId ||
+          (context.provider === 'mongodb' &&
+            foreignKeyType === 'String' &&
+            (!relation || referencesId(relation))),
+        ...attributeFields,
+      });
+
+      // Add the relation field separately
+      fields.push({
+        name: relationFieldName,
+        type: relatedModelName,
+        isRequired,
+        isRelation: true,
+        relationModel: relatedModelName,
+        relationName: foreignKeyRelationName,
+        relationFields: [key],
+        references: [relation?.references ?? referencedIdField?.name ?? 'id'],
+        onDelete: relation?.onDelete,
+        onUpdate: relation?.onUpdate,
+      });
+
+      // Add reverse relation to modelNameToRelations
+      const relatedRelations = modelNameToRelations.get(relatedModelName) || [];
+      relatedRelations.push({
+        relationName: foreignKeyRelationName,
+        relatedModel: modelName,
+        type: isOneToOne ? 'one' : 'many',
+        fieldName:
+          relation?.inverseField ??
+          embeddingField?.name ??
+          (isAmbiguous
+            ? getQualifiedBackRelationName(modelName, qualifier, !isOneToOne)
+            : undefined),
+      });
+      modelNameToRelations.set(relatedModelName, relatedRelations);
+      continue;
     }
 
     let prismaType: string;
     try {
-      prismaType = zodTypeToPrisma(zodType, key, schemaToModelName);
+      prismaType = zodTypeToPrisma(
+        zodType,
+        key,
+        schemaToModelName,
+        modelName,
+        context
+      );
     } catch (error: any) {
       console.error(`Error processing field "${key}": ${error.message}`);
       throw error;
@@ -319,52 +1405,101 @@ function extractPrismaFields(
       name: key,
       type: prismaType,
       isRequired,
-      isUnique,
+      // Ids are unique already
+      isUnique: attributes.unique ?? (!isId && isUnique),
+      isObjectId,
       isId,
       isAutoIncrement,
-      default: defaultValue,
+      default: attributes.default ?? defaultValue,
       isEnum,
       isRelation,
       relationModel,
       relationName,
       relationFields,
       references,
+      ...attributeFields,
     });
   }
 
   return fields;
 }
 
-function generatePrismaModel(
-  modelName: string,
-  zodSchema: ZodSchema<any>,
-  schemaToModelName: Map<ZodSchema<any>, string>,
-  modelNameToRelations: Map<string, any>,
-  modelNameToSchema: Map<string, ZodSchema<any>>
-): string {
+function assertPrismaModelSchema(
+  zodSchema: ZodSchema<any>
+): asserts zodSchema is ZodObject<any> {
   if (!(zodSchema instanceof ZodObject)) {
     throw new Error(
       'Only ZodObject schemas are supported for Prisma model generation.'
     );
   }
+}
 
+/**
+ * Creates the state of one Prisma schema generation. Pass the same context to generatePrismaModel
+ * and generatePrismaEnums to declare the enums of the generated models.
+ */
+function createPrismaGenerationContext(
+  options?: IZodToPrismaOptions
+): IPrismaGenerationContext {
+  return {
+    enums: [],
+    joinModels: [],
+    relationNames: new Map(),
+    provider: options?.datasource?.provider,
+    uniqueEmails: options?.uniqueEmails,
+    idStrategy: options?.idStrategy,
+  };
+}
+
+function generatePrismaModel(
+  modelName: string,
+  zodSchema: ZodSchema<any>,
+  schemaToModelName: Map<ZodSchema<any>, string>,
+  modelNameToRelations: Map<string, any>,
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  context: IPrismaGenerationContext = createPrismaGenerationContext()
+): string {
+  assertPrismaModelSchema(zodSchema);
   const fields = extractPrismaFields(
     zodSchema,
     schemaToModelName,
     modelName,
     modelNameToRelations,
-    modelNameToSchema
+    modelNameToSchema,
+    context
   );
+  return renderPrismaModel(modelName, fields, modelNameToRelations, context);
+}
+
+/**
+ * Formats a model from its fields and the back-relations other models declared to it.
+ */
+function renderPrismaModel(
+  modelName: string,
+  fields: IPrismaField[],
+  modelNameToRelations: Map<string, any>,
+  context: IPrismaGenerationContext
+): string {
   const prismaFields: string[] = [];
+  const isMongoDb = context.provider === 'mongodb';
+  // Several id fields make a composite id
+  const idFields = fields.filter((field) => field.isId);
+  const hasCompositeId = idFields.length > 1;
+  if (hasCompositeId && isMongoDb) {
+    throw new Error(
+      `Model "${modelName}" has a composite id, which is not supported on MongoDB.`
+    );
+  }
 
   fields.forEach((field) => {
     let line = `  ${field.name} ${field.type}`;
 
-    if (!field.isRequired && !field.isRelation) {
+    // List relations cannot be optional in Prisma
+    if (!field.isRequired && !field.type.endsWith('[]')) {
       line += '?';
     }
 
-    if (field.isId) line += ' @id';
+    if (field.isId && !hasCompositeId) line += ' @id';
     if (field.isUnique) line += ' @unique';
     if (field.isAutoIncrement) line += ' @default(autoincrement())';
     if (field.default && !field.isEnum) {
@@ -373,14 +1508,29 @@ function generatePrismaModel(
     if (field.isEnum && field.default) {
       line += ` @default(${field.default})`;
     }
+    if (field.isUpdatedAt) line += ' @updatedAt';
+    // MongoDB stores every id in `_id`
+    const map = field.map ?? (field.isId && isMongoDb ? '_id' : undefined);
+    if (map) line += ` @map("${map}")`;
+    if (field.nativeType) {
+      line += ` @db.${field.nativeType}`;
+    } else if (field.isObjectId && isMongoDb) {
+      line += ' @db.ObjectId';
+    }
 
     if (field.isRelation && field.relationModel) {
       if (field.relationFields?.length) {
+        const referentialActions = [
+          field.onDelete && `, onDelete: ${field.onDelete}`,
+          field.onUpdate && `, onUpdate: ${field.onUpdate}`,
+        ].join('');
         line += ` @relation("${
           field.relationName
         }", fields: [${field.relationFields.join(
           ', '
-        )}], references: [${field.references?.join(', ')}])`;
+        )}], references: [${field.references?.join(
+          ', '
+        )}]${referentialActions})`;
       } else if (field.type.endsWith('[]')) {
         line += ` @relation("${field.relationName}")`;
       } else {
@@ -388,6 +1538,8 @@ function generatePrismaModel(
       }
     }
 
+    if (field.isIgnored) line += ' @ignore';
+
     prismaFields.push(line);
   });
 
@@ -396,17 +1548,38 @@ function generatePrismaModel(
   relations.forEach((rel: any) => {
     const fieldName =
       rel.fieldName ||
-      camelCase(rel.relatedModel) + (rel.type === 'many' ? 's' : '');
+      (rel.type === 'many'
+        ? pluralize(camelCase(rel.relatedModel))
+        : camelCase(rel.relatedModel));
     const fieldType = `${rel.relatedModel}${rel.type === 'many' ? '[]' : '?'}`;
+    if (rel.ids) {
+      prismaFields.push(
+        `  ${rel.ids.field.name} ${rel.ids.field.type} ${
+          rel.ids.field.isObjectId ? '@db.ObjectId' : ''
+        }`.trimEnd()
+      );
+      prismaFields.push(
+        `  ${fieldName} ${fieldType} @relation("${rel.relationName}", fields: [${rel.ids.field.name}], references: [${rel.ids.reference}])`
+      );
+      return;
+    }
     const line = `  ${fieldName} ${fieldType} @relation("${rel.relationName}")`;
     prismaFields.push(line);
   });
 
+  if (hasCompositeId) {
+    prismaFields.push(
+      `  @@id([${idFields.map((field) => field.name).join(', ')}])`
+    );
+  }
+
   return `model ${modelName} {\n${prismaFields.join('\n')}\n}`;
 }
 
-function generatePrismaEnums(): string {
-  return enums
+function generatePrismaEnums(
+  context: IPrismaGenerationContext = createPrismaGenerationContext()
+): string {
+  return context.enums
     .map((enumObj) => {
       const values = enumObj.values.map((v) => `  ${v}`).join('\n');
       return `enum ${enumObj.name} {\n${values}\n}`;
@@ -414,36 +1587,128 @@ function generatePrismaEnums(): string {
     .join('\n\n');
 }
 
+/**
+ * Formats a datasource or generator block, aligning the `=` of its properties.
+ */
+function generatePrismaBlock(
+  type: string,
+  name: string,
+  properties: [string, string | undefined][]
+): string {
+  const definedProperties = properties.filter(
+    (property): property is [string, string] => property[1] !== undefined
+  );
+  const keyWidth = Math.max(...definedProperties.map(([key]) => key.length));
+  const lines = definedProperties.map(
+    ([key, value]) => `  ${key.padEnd(keyWidth)} = ${value}`
+  );
+  return `${type} ${name} {\n${lines.join('\n')}\n}`;
+}
+
+function formatPrismaList(values?: string[]): string | undefined {
+  return values && `[${values.map((value) => `"${value}"`).join(', ')}]`;
+}
+
+function generatePrismaHeader(options?: IZodToPrismaOptions): string {
+  const datasource = options?.datasource ?? {};
+  const provider = datasource.provider ?? 'postgresql';
+  const url =
+    datasource.url ??
+    (provider === 'postgresql' ? 'POSTGRESQL_DATABASE_URL' : 'DATABASE_URL');
+  const env = (variable?: string) => variable && `env("${variable}")`;
+
+  const datasourceBlock = generatePrismaBlock('datasource', 'db', [
+    ['provider', `"${provider}"`],
+    ['url', env(url)],
+    ['directUrl', env(datasource.directUrl)],
+    ['shadowDatabaseUrl', env(datasource.shadowDatabaseUrl)],
+    ['relationMode', datasource.relationMode && `"${datasource.relationMode}"`],
+  ]);
+
+  const generators = options?.generators ?? [{ name: 'client' }];
+  const generatorBlocks = generators.map((generator) =>
+    generatePrismaBlock('generator', generator.name, [
+      ['provider', `"${generator.provider ?? 'prisma-client-js'}"`],
+      ['output', generator.output && `"${generator.output}"`],
+      ['previewFeatures', formatPrismaList(generator.previewFeatures)],
+      ['binaryTargets', formatPrismaList(generator.binaryTargets)],
+    ])
+  );
+
+  return `\n${[datasourceBlock, ...generatorBlocks].join('\n\n')}\n`;
+}
+
+/**
+ * Generates a Prisma schema from Zod schemas, given as a map of model names to schemas
+ * or as a list of models.
+ */
 function zodToPrisma(
-  models: { name: string; schema: ZodSchema<any> }[],
+  models: Record<string, ZodSchema<any>> | IPrismaModel[],
+  options?: IZodToPrismaOptions
+): string;
+/**
+ * Generates a Prisma schema from a list of models and lookup maps between schemas and model names.
+ */
+function zodToPrisma(
+  models: IPrismaModel[],
   schemaToModelName: Map<ZodSchema<any>, string>,
-  modelNameToSchema: Map<string, ZodSchema<any>>
+  modelNameToSchema: Map<string, ZodSchema<any>>,
+  options?: IZodToPrismaOptions
+): string;
+function zodToPrisma(
+  modelsOrRecord: Record<string, ZodSchema<any>> | IPrismaModel[],
+  schemaToModelNameOrOptions?:
+    | Map<ZodSchema<any>, string>
+    | IZodToPrismaOptions,
+  modelNameToSchemaMap?: Map<string, ZodSchema<any>>,
+  optionsArg?: IZodToPrismaOptions
 ): string {
-  const modelNameToRelations = new Map<string, any>();
-  const prismaModels = models
-    .map(({ name, schema }) =>
-      generatePrismaModel(
+  const models: IPrismaModel[] = Array.isArray(modelsOrRecord)
+    ? modelsOrRecord
+    : Object.entries(modelsOrRecord).map(([name, schema]) => ({
         name,
         schema,
-        schemaToModelName,
-        modelNameToRelations,
-        modelNameToSchema
-      )
-    )
-    .join('\n\n');
+      }));
 
-  const prismaEnums = generatePrismaEnums();
+  // Without explicit lookup maps, both are derived from the models
+  const hasLookupMaps = schemaToModelNameOrOptions instanceof Map;
+  const schemaToModelName = hasLookupMaps
+    ? schemaToModelNameOrOptions
+    : new Map(models.map(({ name, schema }) => [schema, name]));
+  const modelNameToSchema =
+    (hasLookupMaps && modelNameToSchemaMap) ||
+    new Map(models.map(({ name, schema }) => [name, schema]));
+  const options = hasLookupMaps
+    ? optionsArg
+    : (schemaToModelNameOrOptions as IZodToPrismaOptions | undefined);
 
-  const prismaSchemaHeader = `
-datasource db {
-  provider = "postgresql"
-  url      = env("POSTGRESQL_DATABASE_URL")
-}
+  // Fresh state per call, so schemas generated in the same process do not share enums
+  const context = createPrismaGenerationContext(options);
+  const modelNameToRelations = new Map<string, any>();
 
-generator client {
-  provider = "prisma-client-js"
-}
-`;
+  // Extract every model before rendering any, so each one knows all its back-relations
+  const modelFields = models.map(({ name, schema }) => {
+    assertPrismaModelSchema(schema);
+    return extractPrismaFields(
+      schema,
+      schemaToModelName,
+      name,
+      modelNameToRelations,
+      modelNameToSchema,
+      context
+    );
+  });
+  const prismaModels = [
+    ...models.map(({ name }, index) =>
+      renderPrismaModel(name, modelFields[index], modelNameToRelations, context)
+    ),
+    ...context.joinModels.map(({ name, fields }) =>
+      renderPrismaModel(name, fields, modelNameToRelations, context)
+    ),
+  ].join('\n\n');
+
+  const prismaEnums = generatePrismaEnums(context);
+  const prismaSchemaHeader = generatePrismaHeader(options);
 
   return `${prismaSchemaHeader}\n\n${prismaEnums}\n\n${prismaModels}`;
 }
@@ -456,8 +1721,22 @@ function handleRelations(
 }
 
 export {
+  createPrismaGenerationContext,
   generatePrismaEnums,
   generatePrismaModel,
   handleRelations,
+  IPrismaDatasourceOptions,
+  IPrismaEnum,
+  IPrismaFieldAttributes,
+  IPrismaGenerationContext,
+  IPrismaGeneratorOptions,
+  IPrismaJoinModelOptions,
+  IPrismaModel,
+  IZodToPrismaOptions,
+  PrismaIdStrategy,
+  PrismaProvider,
+  withPrismaAttributes,
+  withPrismaEnumName,
+  withPrismaJoinModel,
   zodToPrisma,
 };